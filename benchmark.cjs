@@ -0,0 +1,68 @@
+const { performance } = require('perf_hooks');
+const { p } = require('./prse.cjs');
+
+const { object, array, string, number, boolean, enums, record, compile } = p;
+
+const user = object({
+	id: string().uuid(),
+	name: string().trim().minLength(2).maxLength(50),
+	email: string().toLowerCase().email(),
+	age: number().integer().range(0, 150).optional(),
+	role: enums(['admin', 'user', 'guest']).default('user'),
+	active: boolean(),
+	tags: array(string().minLength(1)).maxLength(10),
+	scores: record(number().finiteNumber())
+});
+
+const order = object({
+	id: number().integer().moreThan(0),
+	items: array(object({ sku: string().pattern(/^[A-Z]{3}-\d{4}$/), quantity: number().integer().range(1, 100), price: number().moreThanOrEqualTo(0) })).minLength(1),
+	shipping: object({ street: string().notEmpty(), city: string().notEmpty(), zip: string().length(5) }),
+	note: string().maxLength(200).optional()
+});
+
+const users = Array.from({ length: 1000 }, (_, i) => ({
+	id: `123e4567-e89b-12d3-a456-${String(426614174000 + i).padStart(12, '0')}`,
+	name: `  User ${i} `,
+	email: `User${i}@Example.com`,
+	age: i % 100,
+	active: i % 2 === 0,
+	tags: ['a', 'b', 'c'],
+	scores: { math: i, art: i / 2 }
+}));
+
+const orders = Array.from({ length: 1000 }, (_, i) => ({
+	id: i + 1,
+	items: Array.from({ length: 5 }, (_, j) => ({ sku: `ABC-${String(1000 + j)}`, quantity: j + 1, price: j * 9.99 })),
+	shipping: { street: 'Main Street 1', city: 'Springfield', zip: '12345' }
+}));
+
+const suites = [
+	{ name: 'object (user)', parser: user, data: users },
+	{ name: 'nested arrays (order)', parser: order, data: orders },
+	{ name: 'array of 1000 users', parser: array(user), data: [users] }
+];
+
+const measure = (parser, data) => {
+	const start = performance.now();
+	let count = 0;
+	while (performance.now() - start < 1000) {
+		for (const value of data) {
+			parser.check(value);
+		}
+		count += data.length;
+	}
+	return (count / (performance.now() - start)) * 1000;
+};
+
+for (const { name, parser, data } of suites) {
+	const compiled = compile(parser);
+	for (const value of data) {
+		if (JSON.stringify(parser.check(value)) !== JSON.stringify(compiled.check(value))) {
+			throw new Error(`${name}: compiled result differs from interpreted result`);
+		}
+	}
+	const interpreted = measure(parser, data);
+	const fast = measure(compiled, data);
+	console.log(`${name}: interpreted ${Math.round(interpreted)} ops/s, compiled ${Math.round(fast)} ops/s (${(fast / interpreted).toFixed(1)}x)`);
+}
@@ -23,10 +23,15 @@ function modifyFileForExports(filePath) {
 		.split('\n')
 		.map((line, index) => (index === 0 ? `export ${line}` : line))
 		.join('\n');
-	content += '\nexport { p, assert, Parser, string, number, boolean, unknown, object, objectLoose, array, record, set, map, tuple, enums, fail, date, instance, func, symbol, regexp, bigInt, int8Array, uint8Array };';
+	content += '\nexport { p, assert, Parser, ObjectParser, string, number, boolean, unknown, object, objectLoose, array, record, set, map, tuple, enums, discriminatedUnion, lazy, preprocess, fail, date, instance, func, symbol, regexp, bigInt, int8Array, uint8Array, uint8ClampedArray, int16Array, uint16Array, int32Array, uint32Array, float32Array, float64Array, bigInt64Array, bigUint64Array, arrayBuffer, dataView, blob, file, coerce, decode, toJSONSchema, fromJSONSchema, toOpenAPI, toTypeScript, setErrorMap, setClock, locales, compile, generate, forAll, GenerateOptions, env, validateRequest, RequestFormats, ValidatedRequest, RequestErrorBody, RefinementContext, IssueInput, ErrorMap, DateInput, Duration, FileType, SafeParseResult, PRSEIssue, PRSEIssueCode, PRSEIssueDetails, ParseOptions, Infer, InferInput, Brand, DeepReadonly, ReadonlyParser, ParserDef, ParserCheck, JSONSchema };';
 	fs.writeFileSync(filePath, content);
 }
 
+// `npm pack` and `npm publish` also run the prepare script, which would replace the minified files from `npm run build` with unminified ones.
+if (process.argv.includes('-prepare') && ['pack', 'publish'].includes(process.env.npm_command)) {
+	process.exit(0);
+}
+
 try {
 	copyFileSync(srcFile, umdFile);
 	copyFileSync(srcFile, esmFile);
@@ -38,6 +43,7 @@ try {
 	execSync('tsc --project tsconfig.cjs.json', { stdio: 'inherit' });
 } catch (error) {
 	console.error('Error during build:', error);
+	process.exitCode = 1;
 } finally {
 	deleteFileSync(esmFile);
 	deleteFileSync(cjsFile);
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const { pathToFileURL } = require('url');
+const { p } = require('./prse.cjs');
+
+const usage = `Usage: prse <types|openapi> <module> [--json] [--out <file>]
+
+  types      Emit TypeScript declarations for every parser exported by <module>
+  openapi    Emit OpenAPI 3.1 components.schemas for every parser exported by <module>
+
+Options:
+  --json         Print OpenAPI output as JSON instead of YAML
+  --out <file>   Write the output to <file> instead of stdout`;
+
+const isParser = (value) => value !== null && typeof value === 'object' && typeof value.check === 'function' && value.def && typeof value.def.type === 'string';
+
+const pascalCase = (name) => name.replace(/(^|[^A-Za-z0-9$]+)([A-Za-z0-9$])/g, (_, __, char) => char.toUpperCase());
+
+const loadParsers = async (file) => {
+	const loaded = await import(pathToFileURL(path.resolve(file)).href);
+	const exported = { ...(loaded.default && typeof loaded.default === 'object' && !isParser(loaded.default) ? loaded.default : {}), ...loaded };
+	const parsers = {};
+	Object.keys(exported)
+		.filter((name) => name !== 'default' && isParser(exported[name]))
+		.forEach((name) => (parsers[pascalCase(name)] = exported[name]));
+	if (Object.keys(parsers).length === 0) {
+		throw new Error(`No parsers are exported by ${file}`);
+	}
+	return parsers;
+};
+
+const yamlScalar = (value) => {
+	if (typeof value === 'string') {
+		return /^[A-Za-z_$][\w$.\/#-]*$/.test(value) && !['true', 'false', 'null', 'yes', 'no', 'on', 'off', '~'].includes(value.toLowerCase()) ? value : JSON.stringify(value);
+	}
+	return value === undefined ? 'null' : JSON.stringify(value);
+};
+
+const isEmpty = (value) => (Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0);
+
+const toYAML = (value, indent = '') => {
+	if (value === null || typeof value !== 'object' || isEmpty(value)) {
+		return yamlScalar(value);
+	}
+	const lines = Array.isArray(value)
+		? value.map((item) => {
+				const nested = toYAML(item, `${indent}  `);
+				return item !== null && typeof item === 'object' && !isEmpty(item) ? `${indent}- ${nested.trimStart()}` : `${indent}- ${nested}`;
+			})
+		: Object.keys(value).map((key) => {
+				const item = value[key];
+				const nested = item !== null && typeof item === 'object' && !isEmpty(item);
+				return `${indent}${yamlScalar(key)}:${nested ? `\n${toYAML(item, `${indent}  `)}` : ` ${toYAML(item)}`}`;
+			});
+	return lines.join('\n');
+};
+
+const main = async (args) => {
+	const [command, file] = args.filter((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--out');
+	const outIndex = args.indexOf('--out');
+	if (!['types', 'openapi'].includes(command) || !file || (outIndex !== -1 && !args[outIndex + 1])) {
+		throw new Error(usage);
+	}
+	const parsers = await loadParsers(file);
+	const output = command === 'types' ? p.toTypeScript(parsers) : args.includes('--json') ? `${JSON.stringify(p.toOpenAPI(parsers), null, 2)}\n` : `${toYAML(p.toOpenAPI(parsers))}\n`;
+	if (outIndex !== -1) {
+		fs.writeFileSync(args[outIndex + 1], output);
+	} else {
+		process.stdout.write(output);
+	}
+};
+
+main(process.argv.slice(2)).catch((error) => {
+	console.error(error.message);
+	process.exit(1);
+});
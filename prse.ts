@@ -1,62 +1,672 @@
 class PRSEError extends Error {
-	constructor(message: string) {
+	code: PRSEIssueCode;
+	check: string;
+	path: (string | number)[];
+	expected?: any;
+	received?: any;
+	issues: PRSEIssue[];
+
+	constructor(message: string, details: PRSEIssueDetails = { check: '', code: 'custom' }, issues: PRSEIssue[] = [{ ...details, path: [], message }]) {
 		super(message);
 		this.name = 'PRSEError';
+		this.code = details.code;
+		this.check = details.check;
+		this.expected = details.expected;
+		this.received = details.received;
+		this.issues = issues;
+		this.path = issues.length > 0 ? issues[0].path : [];
 	}
+
+	toJSON() {
+		return {
+			name: this.name,
+			code: this.code,
+			message: this.message,
+			path: this.path,
+			expected: this.expected,
+			received: this.received,
+			issues: this.issues
+		};
+	}
+}
+
+type PRSEIssueCode = 'invalid_type' | 'invalid_value' | 'invalid_date' | 'invalid_union' | 'too_small' | 'too_big' | 'not_in_enum' | 'missing_property' | 'unexpected_property' | 'pattern_mismatch' | 'custom';
+
+interface PRSEIssueDetails {
+	check: string;
+	code: PRSEIssueCode;
+	expected?: any;
+	received?: any;
+	issues?: PRSEIssue[];
+}
+
+interface PRSEIssue extends PRSEIssueDetails {
+	path: (string | number)[];
+	message: string;
+}
+
+type ErrorMap = (issue: PRSEIssue) => string | undefined;
+
+interface ParseOptions {
+	abortEarly?: boolean;
+	async?: boolean;
+	errorMap?: ErrorMap;
+	clock?: () => DateInput;
 }
 
-const assert = (condition: boolean, message: string) => {
+let errorMap: ErrorMap | undefined;
+
+const setErrorMap = (map: ErrorMap | undefined) => {
+	errorMap = map;
+};
+
+const nestedOptions = new WeakSet<ParseOptions>();
+
+// The objects that lazy() is currently checking further up the same branch of a parse call, shared by every lazy() of that call.
+const lazyAncestors = new WeakMap<ParseOptions, Set<any>>();
+
+// Deeper data would overflow the call stack, which is a crash instead of a failed check for untrusted input.
+const maxLazyDepth = 100;
+
+const explicitMessage = Symbol('explicitMessage');
+
+// Set by env(), where `.default()` only fills in missing values and a set but invalid value is still reported.
+const defaultWhenMissing = Symbol('defaultWhenMissing');
+
+const nativeParsers = new WeakSet<Parser<any, any>>();
+
+const parentParsers = new WeakMap<Parser<any, any>, Parser<any, any>>();
+
+const annotatedParsers = new WeakMap<Parser<any, any>, Parser<any, any>>();
+
+const native = <P extends Parser<any, any>>(parser: P): P => {
+	nativeParsers.add(parser);
+	return parser;
+};
+
+const localizeIssue = (issue: PRSEIssue, map: ErrorMap): PRSEIssue => {
+	const message = (issue as any)[explicitMessage] ? issue.message : map(issue) || issue.message;
+	return issue.issues ? { ...issue, message, issues: issue.issues.map((nested) => localizeIssue(nested, map)) } : { ...issue, message };
+};
+
+const localize = (e: PRSEError, map: ErrorMap | undefined): PRSEError => {
+	if (map !== undefined) {
+		e.issues = e.issues.map((issue) => localizeIssue(issue, map));
+		e.message = e.issues[0].message;
+	}
+	return e;
+};
+
+const assert = (condition: boolean, message: string, details?: PRSEIssueDetails) => {
 	if (!condition) {
-		throw new PRSEError(message);
+		throw new PRSEError(message, details);
+	}
+};
+
+const typeOf = (v: any): string => {
+	if (v === null) {
+		return 'null';
+	} else if (Array.isArray(v)) {
+		return 'array';
+	} else if (typeof v === 'object' && v.constructor && v.constructor !== Object) {
+		return v.constructor.name;
+	}
+	return typeof v;
+};
+
+const formatPath = (path: (string | number)[]): string => path.reduce<string>((result, key) => (typeof key === 'number' ? `${result}[${key}]` : result === '' ? key : `${result}.${key}`), '');
+
+class Pending<T> {
+	promise: Promise<T>;
+
+	constructor(promise: Promise<T>) {
+		this.promise = promise;
+	}
+}
+
+class Invalid {
+	issues: PRSEIssue[];
+
+	constructor(issues: PRSEIssue[]) {
+		this.issues = issues;
+	}
+}
+
+const settle = (v: any): any => (v instanceof Pending ? v.promise : v);
+
+const whenDone = (v: any, fn: (v: any) => any): any => (v instanceof Pending ? new Pending(v.promise.then((result) => settle(fn(result)))) : fn(v));
+
+const whenAll = (values: any[], fn: (values: any[]) => any): any => (values.some((v) => v instanceof Pending) ? new Pending(Promise.all(values.map(settle)).then((results) => settle(fn(results)))) : fn(values));
+
+const attempt = (fn: () => any, onError: (e: any) => any): any => {
+	try {
+		const result = fn();
+		return result instanceof Pending ? new Pending(result.promise.catch((e) => settle(onError(e)))) : result;
+	} catch (e) {
+		return onError(e);
+	}
+};
+
+const assertAsync = (options: ParseOptions, method: string) => {
+	if (!options.async) {
+		throw new Error(`${method}() can only be used with checkAsync(), safeParseAsync(), runAsync() or parseAsync()`);
+	}
+};
+
+const firstValid = (checks: (() => any)[], onNone: (issues: PRSEIssue[]) => any, issues: PRSEIssue[] = []): any => {
+	if (checks.length === 0) {
+		return onNone(issues);
+	}
+	return attempt(checks[0], (e) => {
+		if (!(e instanceof PRSEError)) {
+			throw e;
+		}
+		return firstValid(checks.slice(1), onNone, issues.concat(e.issues));
+	});
+};
+
+const checkAt = (key: string | number, options: ParseOptions, checkFn: () => any): any =>
+	attempt(checkFn, (e) => {
+		if (!(e instanceof PRSEError)) {
+			throw e;
+		}
+		e.issues = e.issues.map((issue) => ({ ...issue, path: [key, ...issue.path] }));
+		e.path = e.issues[0].path;
+		if (options.abortEarly !== false) {
+			throw e;
+		}
+		return new Invalid(e.issues);
+	});
+
+const collect = (values: any[], build: (values: any[]) => any): any =>
+	whenAll(values, (results) => {
+		const issues = results.reduce((list: PRSEIssue[], result) => (result instanceof Invalid ? list.concat(result.issues) : list), []);
+		if (issues.length > 0) {
+			throw new PRSEError(issues[0].message, issues[0], issues);
+		}
+		return build(results);
+	});
+
+// Assigning a `__proto__` key (like the one `JSON.parse()` creates) would change the prototype of the result instead of adding a property.
+const setProperty = (target: any, key: string, value: any) => {
+	Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+};
+
+type IssueInput = Partial<PRSEIssueDetails> & { message: string; path?: (string | number)[] };
+
+class RefinementContext {
+	issues: PRSEIssue[];
+	private check: string;
+	private received: any;
+
+	constructor(check: string, received: any) {
+		this.issues = [];
+		this.check = check;
+		this.received = received;
+	}
+
+	addIssue = (issue: IssueInput) => {
+		this.issues.push({ check: this.check, code: 'custom', received: this.received, path: [], ...issue });
+	};
+}
+
+const withContext = (check: string, v: any, fn: (ctx: RefinementContext) => any): any => {
+	const ctx = new RefinementContext(check, v);
+	const result = fn(ctx);
+	if (ctx.issues.length > 0) {
+		throw new PRSEError(ctx.issues[0].message, ctx.issues[0], ctx.issues);
+	}
+	return result;
+};
+
+type SafeParseResult<T> = { success: true; data: T } | { success: false; error: PRSEError };
+
+interface ParserCheck {
+	check: string;
+	[key: string]: any;
+}
+
+interface ParserDef {
+	type: string;
+	checks: ParserCheck[];
+	shape?: Shape;
+	element?: Parser<any, any>;
+	key?: Parser<any, any>;
+	items?: Parser<any, any>[];
+	options?: Parser<any, any>[];
+	values?: readonly any[];
+	discriminator?: string;
+	getter?: () => Parser<any, any>;
+	unknownKeys?: UnknownKeys;
+	catchall?: Parser<any, any>;
+	branches?: { [tag: string]: Parser<any, any> };
+	iso?: boolean;
+	className?: string;
+	description?: string;
+	examples?: any[];
+	deprecated?: string;
+	meta?: { [key: string]: any };
+}
+
+declare const brand: unique symbol;
+
+type Brand<B extends string | symbol> = { readonly [brand]: B };
+
+type DeepReadonly<T> = T extends string | number | boolean | bigint | symbol | null | undefined | Function | Date | ArrayBuffer | ArrayBufferView ? T : T extends Map<infer K, infer V> ? ReadonlyMap<DeepReadonly<K>, DeepReadonly<V>> : T extends Set<infer U> ? ReadonlySet<DeepReadonly<U>> : { readonly [K in keyof T]: DeepReadonly<T[K]> };
+
+// A named interface rather than Parser<DeepReadonly<T>, I>, so that inferring T from a parser matches the type arguments instead of going through the conditional type.
+interface ReadonlyParser<T, I> extends Parser<DeepReadonly<T>, I> {}
+
+type Infer<P> = P extends Parser<infer T, any> ? T : never;
+
+type InferInput<P> = P extends Parser<any, infer I> ? I : never;
+
+type Shape = { [key: string]: Parser<any, any> };
+
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+type OptionalKeys<S, U extends 'output' | 'input'> = { [K in keyof S]: undefined extends (U extends 'output' ? Infer<S[K]> : InferInput<S[K]>) ? K : never }[keyof S];
+
+type ObjectOutput<S extends Shape> = Flatten<{ [K in Exclude<keyof S, OptionalKeys<S, 'output'>>]: Infer<S[K]> } & { [K in OptionalKeys<S, 'output'>]?: Infer<S[K]> }>;
+
+type ObjectInput<S extends Shape> = Flatten<{ [K in Exclude<keyof S, OptionalKeys<S, 'input'>>]: InferInput<S[K]> } & { [K in OptionalKeys<S, 'input'>]?: InferInput<S[K]> }>;
+
+type UnknownKeys = 'strip' | 'strict' | 'passthrough';
+
+type ExtraKeys = { [key: string]: unknown };
+
+type ObjectParserOutput<S extends Shape, L extends boolean, E> = (L extends true ? Partial<ObjectOutput<S>> : ObjectOutput<S>) & E;
+
+type ObjectParserInput<S extends Shape, L extends boolean, E> = (L extends true ? Partial<ObjectInput<S>> : ObjectInput<S>) & E;
+
+type ExtendShape<S extends Shape, N extends Shape> = Flatten<Omit<S, keyof N> & N>;
+
+type PartialShape<S extends Shape> = { [K in keyof S]: Parser<Infer<S[K]> | undefined, InferInput<S[K]> | undefined | null> };
+
+type DeepPartialShape<S extends Shape> = {
+	[K in keyof S]: S[K] extends ObjectParser<infer N, infer L, infer E> ? Parser<ObjectParserOutput<DeepPartialShape<N>, L, E> | undefined, ObjectParserInput<DeepPartialShape<N>, L, E> | undefined | null> : Parser<Infer<S[K]> | undefined, InferInput<S[K]> | undefined | null>;
+};
+
+type RequiredShape<S extends Shape> = { [K in keyof S]: Parser<Exclude<Infer<S[K]>, undefined>, Exclude<InferInput<S[K]>, undefined | null>> };
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+const isIPv6 = (v: string): boolean => {
+	let address = v;
+	if (v.includes('.')) {
+		const lastColon = v.lastIndexOf(':');
+		if (lastColon === -1 || !IPV4.test(v.slice(lastColon + 1))) {
+			return false;
+		}
+		address = `${v.slice(0, lastColon + 1)}0:0`;
+	}
+	const halves = address.split('::');
+	if (halves.length > 2) {
+		return false;
+	}
+	const groups = halves.reduce((list: string[], half) => (half === '' ? list : list.concat(half.split(':'))), []);
+	return groups.every((group) => /^[0-9a-fA-F]{1,4}$/.test(group)) && (halves.length === 2 ? groups.length <= 7 : groups.length === 8);
+};
+
+const isCIDR = (v: string, version?: 4 | 6): boolean => {
+	const [address, prefix, ...rest] = v.split('/');
+	if (rest.length > 0 || prefix === undefined || !/^(0|[1-9]\d{0,2})$/.test(prefix)) {
+		return false;
+	}
+	if (version !== 6 && IPV4.test(address)) {
+		return Number(prefix) <= 32;
+	}
+	return version !== 4 && isIPv6(address) && Number(prefix) <= 128;
+};
+
+const passesLuhn = (v: string): boolean => {
+	const digits = v.replace(/[\s-]/g, '');
+	if (!/^\d{12,19}$/.test(digits)) {
+		return false;
+	}
+	const sum = digits
+		.split('')
+		.reverse()
+		.reduce((total, digit, i) => {
+			const n = Number(digit) * (i % 2 === 1 ? 2 : 1);
+			return total + (n > 9 ? n - 9 : n);
+		}, 0);
+	return sum % 10 === 0;
+};
+
+const isISODate = (v: string): boolean => {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(v);
+	if (match === null) {
+		return false;
+	}
+	const [year, month, day] = match.slice(1).map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day));
+	return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const ISO_TIME = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?$/;
+
+const ISO_OFFSET = /^[+-]([01]\d|2[0-3]):?[0-5]\d$/;
+
+const isISODateTime = (v: string, offset: boolean, local: boolean): boolean => {
+	const [date, rest, ...others] = v.split('T');
+	if (others.length > 0 || rest === undefined || !isISODate(date)) {
+		return false;
+	}
+	const zone = /(Z|[+-][\d:]+)$/.exec(rest);
+	if (zone === null) {
+		return local && ISO_TIME.test(rest);
+	}
+	const time = rest.slice(0, -zone[0].length);
+	return ISO_TIME.test(time) && (zone[0] === 'Z' || (offset && ISO_OFFSET.test(zone[0])));
+};
+
+const isURL = (v: string, protocols: string[]): boolean => {
+	try {
+		const url = new URL(v);
+		const protocol = url.protocol.slice(0, -1);
+		// new URL() also accepts and fixes input like `http:/a.com` or `http:\\a.com` for these protocols, so the `//` is checked on the original string.
+		const hierarchical = ['http', 'https', 'ftp', 'ws', 'wss'].includes(protocol);
+		return protocols.includes(protocol) && (!hierarchical || (v.slice(0, protocol.length + 3).toLowerCase() === `${protocol}://` && url.hostname !== ''));
+	} catch (e) {
+		return false;
+	}
+};
+
+const isBase64URL = (v: string): boolean => {
+	const unpadded = v.replace(/=+$/, '');
+	return /^[A-Za-z0-9_-]*$/.test(unpadded) && unpadded.length % 4 !== 1 && (unpadded === v || (v.length % 4 === 0 && v.length - unpadded.length <= 2));
+};
+
+const BASE64_STRING = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+const HEX_STRING = /^(?:[0-9a-f]{2})*$/i;
+
+const fileSignatures = {
+	png: [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+	jpeg: [[0xff, 0xd8, 0xff]],
+	gif: [[0x47, 0x49, 0x46, 0x38]],
+	webp: [[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+	bmp: [[0x42, 0x4d]],
+	ico: [[0x00, 0x00, 0x01, 0x00]],
+	tiff: [
+		[0x49, 0x49, 0x2a, 0x00],
+		[0x4d, 0x4d, 0x00, 0x2a]
+	],
+	pdf: [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+	zip: [
+		[0x50, 0x4b, 0x03, 0x04],
+		[0x50, 0x4b, 0x05, 0x06]
+	],
+	gzip: [[0x1f, 0x8b]],
+	mp3: [
+		[0x49, 0x44, 0x33],
+		[0xff, 0xfb]
+	],
+	mp4: [[null, null, null, null, 0x66, 0x74, 0x79, 0x70]],
+	wav: [[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45]],
+	wasm: [[0x00, 0x61, 0x73, 0x6d]]
+};
+
+type FileType = keyof typeof fileSignatures;
+
+const isBlob = (v: any): v is Blob => typeof Blob !== 'undefined' && v instanceof Blob;
+
+const bytesOf = (v: any): Uint8Array => {
+	if (v instanceof ArrayBuffer) {
+		return new Uint8Array(v);
+	}
+	return ArrayBuffer.isView(v) ? new Uint8Array(v.buffer, v.byteOffset, v.byteLength) : new Uint8Array(0);
+};
+
+const byteSizeOf = (v: any): number => (isBlob(v) ? v.size : v instanceof ArrayBuffer || ArrayBuffer.isView(v) ? v.byteLength : NaN);
+
+const fileTypeOf = (bytes: Uint8Array): FileType | undefined => (Object.keys(fileSignatures) as FileType[]).find((type) => (fileSignatures[type] as (number | null)[][]).some((signature) => signature.length <= bytes.length && signature.every((byte, i) => byte === null || bytes[i] === byte)));
+
+const decodeBase64Bytes = (text: string): Uint8Array => {
+	const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+	const digits = text.replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/');
+	const bytes = new Uint8Array(Math.floor((digits.length * 3) / 4));
+	let buffer = 0;
+	let bits = 0;
+	let index = 0;
+	for (const digit of digits) {
+		buffer = ((buffer << 6) | alphabet.indexOf(digit)) & 0xffff;
+		bits += 6;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes[index++] = (buffer >> bits) & 0xff;
+		}
+	}
+	return bytes;
+};
+
+const decodeHexBytes = (text: string): Uint8Array => new Uint8Array((text.match(/../g) || []).map((pair) => parseInt(pair, 16)));
+
+type DateInput = Date | string | number;
+
+type Duration = { weeks?: number; days?: number; hours?: number; minutes?: number; seconds?: number; milliseconds?: number };
+
+let clock: (() => DateInput) | undefined;
+
+const setClock = (fn: (() => DateInput) | undefined) => {
+	clock = fn;
+};
+
+const now = (options: ParseOptions): Date => new Date((options.clock || clock || Date.now)());
+
+const toDate = (v: DateInput): Date => (v instanceof Date ? v : new Date(v));
+
+const describeDate = (v: DateInput): string => (typeof v === 'string' ? v : toDate(v).toISOString());
+
+const durationOf = (duration: Duration): number => ((((duration.weeks || 0) * 7 + (duration.days || 0)) * 24 + (duration.hours || 0)) * 60 + (duration.minutes || 0)) * 60000 + (duration.seconds || 0) * 1000 + (duration.milliseconds || 0);
+
+const calendarDay = (v: Date, timeZone?: string): string => {
+	const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(v);
+	const part = (type: string) => (parts.find((p) => p.type === type) as Intl.DateTimeFormatPart).value;
+	return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+// ISO date-only strings already are calendar days, so they aren't moved into the time zone like dates and timestamps.
+const calendarDayOf = (v: DateInput, timeZone?: string): string => (typeof v === 'string' && isISODate(v) ? v : calendarDay(toDate(v), timeZone));
+
+const dayOfWeek = (v: Date, timeZone?: string): number => new Date(`${calendarDay(v, timeZone)}T00:00:00Z`).getUTCDay();
+
+const readonlyError = (action: string): TypeError => new TypeError(`Cannot ${action}: the value is readonly`);
+
+const lockedMethods = (v: object): string[] => {
+	if (v instanceof Map) {
+		return ['set', 'delete', 'clear'];
+	} else if (v instanceof Set) {
+		return ['add', 'delete', 'clear'];
+	} else if (v instanceof Date || v instanceof DataView) {
+		return Object.getOwnPropertyNames(Object.getPrototypeOf(v)).filter((name) => name.startsWith('set'));
+	}
+	return ArrayBuffer.isView(v) ? ['set', 'fill', 'copyWithin', 'sort', 'reverse'] : [];
+};
+
+// Copies what it freezes, so the input (and the parts of it that formats like unknown() keep as they are) is never frozen. Class instances, like the ones from instance(), are left as they are.
+const frozenCopy = <T>(v: T, copies = new Map<object, any>()): T => {
+	if (typeof v !== 'object' || v === null) {
+		return v;
+	} else if (copies.has(v)) {
+		return copies.get(v);
+	}
+	const source: any = v;
+	const prototype = Object.getPrototypeOf(source);
+	let copy: any;
+	if (Array.isArray(source)) {
+		copy = [];
+	} else if (source instanceof Map) {
+		copy = new Map();
+	} else if (source instanceof Set) {
+		copy = new Set();
+	} else if (source instanceof Date) {
+		copy = new Date(source.getTime());
+	} else if (source instanceof DataView) {
+		copy = new DataView(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+	} else if (prototype === Object.prototype || prototype === null) {
+		copy = Object.create(prototype);
+	} else {
+		return v;
+	}
+	copies.set(source, copy);
+	if (source instanceof Map) {
+		source.forEach((value, key) => copy.set(key, frozenCopy(value, copies)));
+	} else if (source instanceof Set) {
+		source.forEach((item) => copy.add(frozenCopy(item, copies)));
+	}
+	Reflect.ownKeys(source).forEach((key) => {
+		const descriptor = Reflect.getOwnPropertyDescriptor(source, key)!;
+		Object.defineProperty(copy, key, 'value' in descriptor ? { ...descriptor, value: frozenCopy(descriptor.value, copies) } : descriptor);
+	});
+	lockedMethods(copy).forEach((name) =>
+		Object.defineProperty(copy, name, {
+			value: () => {
+				throw readonlyError(`call ${name}()`);
+			}
+		})
+	);
+	return Object.freeze(copy);
+};
+
+const readonlyIterator = (iterator: Iterator<any>, wrap: (v: any) => any): IterableIterator<any> => ({
+	next: () => {
+		const result = iterator.next();
+		return result.done ? result : { done: false, value: wrap(result.value) };
+	},
+	[Symbol.iterator]() {
+		return this;
+	}
+});
+
+const readonlyProxy = <T>(v: T, proxies = new WeakMap<object, any>()): T => {
+	if (typeof v !== 'object' || v === null || v instanceof ArrayBuffer) {
+		return v;
+	} else if (proxies.has(v)) {
+		return proxies.get(v);
 	}
+	const wrap = (value: any) => readonlyProxy(value, proxies);
+	const locked = lockedMethods(v);
+	const builtIn = v instanceof Map || v instanceof Set || v instanceof Date || ArrayBuffer.isView(v);
+	const proxy: any = new Proxy(v as any, {
+		get: (target, key) => {
+			const value = Reflect.get(target, key, builtIn ? target : proxy);
+			if (typeof value !== 'function' || !builtIn) {
+				const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+				return descriptor && !descriptor.configurable && !descriptor.writable ? value : wrap(value);
+			} else if (locked.includes(key as string)) {
+				return () => {
+					throw readonlyError(`call ${String(key)}()`);
+				};
+			} else if (key === 'forEach') {
+				return (fn: (...args: any[]) => void, thisArg?: any) => target.forEach((item: any, index: any) => fn.call(thisArg, wrap(item), wrap(index), proxy));
+			}
+			return (...args: any[]) => {
+				const result = value.apply(target, args);
+				return result !== target && result !== null && typeof result === 'object' && typeof result.next === 'function' ? readonlyIterator(result, wrap) : wrap(result);
+			};
+		},
+		set: (_, key) => {
+			throw readonlyError(`set ${String(key)}`);
+		},
+		defineProperty: (_, key) => {
+			throw readonlyError(`define ${String(key)}`);
+		},
+		deleteProperty: (_, key) => {
+			throw readonlyError(`delete ${String(key)}`);
+		},
+		setPrototypeOf: () => {
+			throw readonlyError('change the prototype');
+		}
+	});
+	proxies.set(v, proxy);
+	return proxy;
 };
 
-class Parser<T> {
-	private _parse: (v: any) => T;
+class Parser<T, I = T> {
+	declare readonly _input: I;
+
+	private _parse: (v: any, options: ParseOptions) => T;
 	private errorMessage: string;
+	def: ParserDef;
 
-	constructor(parseFn: (v: any) => T, errorMessage = '') {
+	constructor(parseFn: (v: any, options: ParseOptions) => T, errorMessage = '', def: ParserDef = { type: 'unknown', checks: [] }) {
 		this._parse = parseFn;
 		this.errorMessage = errorMessage;
+		this.def = def;
 	}
 
-	check = (v: any): T => {
-		try {
-			return this._parse(v);
-		} catch (e) {
-			if (e instanceof PRSEError && !e.message.startsWith(this.errorMessage)) {
-				if (this.errorMessage == '') {
-					throw new PRSEError(e.message);
-				} else {
-					throw new PRSEError(this.errorMessage);
+	private derive = <R, RI>(parser: Parser<R, RI>, check: ParserCheck): Parser<R, RI> => {
+		parser.def = { ...this.def, checks: [...this.def.checks, check] };
+		parentParsers.set(parser, this);
+		return parser;
+	};
+
+	check = (v: any, options: ParseOptions = {}): T => {
+		if (!nestedOptions.has(options)) {
+			const nested = { ...options };
+			nestedOptions.add(nested);
+			return attempt(
+				() => this.check(v, nested),
+				(e) => {
+					throw e instanceof PRSEError ? localize(e, options.errorMap || errorMap) : e;
+				}
+			);
+		}
+		return attempt(
+			() => this._parse(v, options),
+			(e) => {
+				if (e instanceof PRSEError && this.errorMessage !== '') {
+					throw new PRSEError(
+						this.errorMessage,
+						e,
+						e.issues.map((issue) => ({ ...issue, message: this.errorMessage, [explicitMessage]: true }))
+					);
 				}
+				throw e;
 			}
-			throw e;
+		);
+	};
+
+	checkAsync = (v: any, options: ParseOptions = {}): Promise<T> => {
+		return Promise.resolve().then(() => settle(this.check(v, { ...options, async: true })));
+	};
+
+	private report = (e: any, onFailure: ((errorInfo: string, errorDetails: { name: string; code: PRSEIssueCode | ''; message: string; file: string; line: string; column: string; path: (string | number)[]; issues: PRSEIssue[] }) => void) | null) => {
+		const errorInfos = getErrorInfo(e.stack);
+		const i = errorInfos[2] || { file: '', line: '', column: '' };
+		const issues: PRSEIssue[] = e instanceof PRSEError ? e.issues : [];
+		const at = issues
+			.filter((issue) => issue.path.length > 0)
+			.map((issue) => `\n\x1b[33mPath\x1b[0m: \x1b[36m${formatPath(issue.path)}\x1b[0m - \x1b[31m${issue.message}\x1b[0m`)
+			.join('');
+		const t = `\x1b[31m${e.name}\x1b[0m: \x1b[31m${e.message}\x1b[0m${at}\n\x1b[33mFile\x1b[0m: \x1b[36m${i.file}\x1b[0m\n\x1b[33mAt\x1b[0m: \x1b[36mLine - \x1b[0m\x1b[35m${i.line}\x1b[0m; \x1b[36mColumn - \x1b[0m\x1b[35m${i.column}\x1b[0m`;
+		if (onFailure !== null) {
+			onFailure(t, {
+				name: e.name,
+				code: e instanceof PRSEError ? e.code : '',
+				message: e.message,
+				file: i.file,
+				line: i.line,
+				column: i.column,
+				path: e instanceof PRSEError ? e.path : [],
+				issues
+			});
+		} else {
+			console.error(t);
 		}
 	};
 
-	run = (rawData: string, onSuccess: (() => void) | null = null, onFailure: ((errorInfo: string, errorDetails: { name: string; message: string; file: string; line: string; column: string }) => void) | null = null): any => {
+	run = (rawData: string, onSuccess: (() => void) | null = null, onFailure: ((errorInfo: string, errorDetails: { name: string; code: PRSEIssueCode | ''; message: string; file: string; line: string; column: string; path: (string | number)[]; issues: PRSEIssue[] }) => void) | null = null, options: ParseOptions = {}): any => {
 		try {
-			this.check(rawData);
+			this.check(rawData, options);
 			if (onSuccess !== null) {
 				onSuccess();
 			}
 			return true;
 		} catch (e) {
-			const errorInfos = getErrorInfo(e.stack);
-			const i = errorInfos[2];
-			const t = `\x1b[31m${e.name}\x1b[0m: \x1b[31m${e.message}\x1b[0m\n\x1b[33mFile\x1b[0m: \x1b[36m${i.file}\x1b[0m\n\x1b[33mAt\x1b[0m: \x1b[36mLine - \x1b[0m\x1b[35m${i.line}\x1b[0m; \x1b[36mColumn - \x1b[0m\x1b[35m${i.column}\x1b[0m`;
-			if (onFailure !== null) {
-				onFailure(t, {
-					name: e.name,
-					message: e.message,
-					file: i.file,
-					line: i.line,
-					column: i.column
-				});
-			} else {
-				console.error(t);
-			}
+			this.report(e, onFailure);
 			return false;
 		}
 	};
@@ -65,738 +675,1344 @@ class Parser<T> {
 		return this.run(...args);
 	};
 
-	withMessage = (message: string): Parser<T> => {
-		return new Parser<T>(this._parse, message);
+	safeParse = (v: any, options: ParseOptions = {}): SafeParseResult<T> => {
+		try {
+			return { success: true, data: this.check(v, options) };
+		} catch (e) {
+			if (e instanceof PRSEError) {
+				return { success: false, error: e };
+			}
+			throw e;
+		}
+	};
+
+	runAsync = (rawData: any, onSuccess: (() => void) | null = null, onFailure: Parameters<typeof this.run>[2] = null, options: ParseOptions = {}): Promise<boolean> => {
+		return this.checkAsync(rawData, options).then(
+			() => {
+				if (onSuccess !== null) {
+					onSuccess();
+				}
+				return true;
+			},
+			(e) => {
+				this.report(e, onFailure);
+				return false;
+			}
+		);
+	};
+
+	parseAsync = (...args: Parameters<typeof this.runAsync>): ReturnType<typeof this.runAsync> => {
+		return this.runAsync(...args);
+	};
+
+	safeParseAsync = (v: any, options: ParseOptions = {}): Promise<SafeParseResult<T>> => {
+		return this.checkAsync(v, options).then(
+			(data): SafeParseResult<T> => ({ success: true, data }),
+			(e) => {
+				if (e instanceof PRSEError) {
+					return { success: false, error: e };
+				}
+				throw e;
+			}
+		);
+	};
+
+	withMessage = (message: string): Parser<T, I> => {
+		return new Parser<T, I>(this._parse, message, this.def);
+	};
+
+	// Clones with the same class, so an annotated object() keeps extend(), pick() and the other ObjectParser methods.
+	private annotate = (def: Partial<ParserDef>): this => {
+		const parser = new (this.constructor as new (parseFn: (v: any, options: ParseOptions) => T, errorMessage: string, def: ParserDef) => this)(this._parse, this.errorMessage, { ...this.def, ...def });
+		annotatedParsers.set(parser, this);
+		return parser;
 	};
 
-	notEmpty = (): Parser<T> => {
-		return this.map((v: any) => {
+	describe = (description: string): this => this.annotate({ description });
+
+	examples = (...examples: I[]): this => this.annotate({ examples });
+
+	deprecated = (reason = ''): this => this.annotate({ deprecated: reason });
+
+	meta = (meta: { [key: string]: any }): this => this.annotate({ meta: { ...this.def.meta, ...meta } });
+
+	brand = <B extends string | symbol>(): Parser<T & Brand<B>, I> => this.annotate({}) as Parser<any, I>;
+
+	notEmpty = (): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string' || Array.isArray(v)) {
-				assert(v.length > 0, 'Value must not be empty');
+				assert(v.length > 0, 'Value must not be empty', { check: 'notEmpty', code: 'too_small', expected: 1, received: v.length });
 			} else if (typeof v === 'object' && v !== null) {
-				assert(Object.keys(v).length > 0, 'Object must not be empty');
+				assert(Object.keys(v).length > 0, 'Object must not be empty', { check: 'notEmpty', code: 'too_small', expected: 1, received: Object.keys(v).length });
 			} else {
-				throw new PRSEError('Invalid type for notEmpty validation');
+				throw new PRSEError('Invalid type for notEmpty validation', { check: 'notEmpty', code: 'invalid_type', received: typeOf(v) });
 			}
 			return v;
 		});
+		return this.derive(wrapped, { check: 'notEmpty' });
 	};
 
-	empty = (): Parser<T> => {
-		return this.map((v: any) => {
+	empty = (): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string' || Array.isArray(v)) {
-				assert(v.length == 0, 'Value must be empty');
+				assert(v.length == 0, 'Value must be empty', { check: 'empty', code: 'too_big', expected: 0, received: v.length });
 			} else if (typeof v === 'object' && v !== null) {
-				assert(Object.keys(v).length == 0, 'Object must be empty');
+				assert(Object.keys(v).length == 0, 'Object must be empty', { check: 'empty', code: 'too_big', expected: 0, received: Object.keys(v).length });
 			} else {
-				throw new PRSEError('Invalid type for notEmpty validation');
+				throw new PRSEError('Invalid type for notEmpty validation', { check: 'empty', code: 'invalid_type', received: typeOf(v) });
 			}
 			return v;
 		});
+		return this.derive(wrapped, { check: 'empty' });
 	};
 
-	or = (...parsers: Parser<T>[]): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			for (const parser of [this, ...parsers]) {
-				try {
-					return parser.check(v);
-				} catch (e) {
-					if (e instanceof PRSEError) {
-						continue;
+	or = <P extends Parser<any, any>[]>(...parsers: P): Parser<T | Infer<P[number]>, I | InferInput<P[number]>> => {
+		return native(
+			define<T | Infer<P[number]>, I | InferInput<P[number]>>({ type: 'or', checks: [], options: [this, ...parsers] }, (v: any, options) => {
+				return firstValid(
+					[this, ...parsers].map((parser) => () => parser.check(v, options)),
+					(issues) => {
+						throw new PRSEError('No valid alternatives', { check: 'or', code: 'invalid_union', received: v, issues });
 					}
-					throw e;
-				}
-			}
-			throw new PRSEError('No valid alternatives');
-		});
+				);
+			})
+		);
 	};
 
-	and<U>(other: Parser<U>): Parser<[T, U]> {
-		return new Parser<[T, U]>((v: any) => {
-			const result1 = this.check(v);
-			const result2 = other.check(v);
-			return [result1, result2];
+	and<U, UI>(other: Parser<U, UI>): Parser<[T, U], I & UI> {
+		return define<[T, U], I & UI>({ type: 'and', checks: [], options: [this, other] }, (v: any, options) => {
+			return whenAll([this.check(v, options), other.check(v, options)], ([result1, result2]) => [result1, result2]);
 		});
 	}
 
-	not<U>(other: Parser<U>): Parser<[T, U]> {
-		return new Parser<[T, U]>((v: any): any => {
-			const result1 = this.check(v);
-			let result2;
-			try {
-				result2 = other.check(v);
-				result2 = false;
-			} catch (e) {
-				result2 = true;
-			}
-			if (result2 == false) {
-				throw new PRSEError('Failed to pass not(condition)');
-			}
-			return [result1, result2];
+	not<U>(other: Parser<U, any>): Parser<[T, U], I> {
+		const wrapped = new Parser<[T, U], I>((v: any, options): any => {
+			return whenDone(this.check(v, options), (result1) =>
+				whenDone(
+					attempt(
+						() => whenDone(other.check(v, options), () => false),
+						() => true
+					),
+					(result2) => {
+						if (result2 == false) {
+							throw new PRSEError('Failed to pass not(condition)', { check: 'not', code: 'invalid_value', received: v });
+						}
+						return [result1, result2];
+					}
+				)
+			);
 		});
+		return this.derive(wrapped, { check: 'not', parser: other });
 	}
 
-	optional = (): Parser<T | undefined> => {
-		return new Parser((value) => {
+	optional = (): Parser<T | undefined, I | undefined | null> => {
+		const wrapped = new Parser((value, options) => {
 			if (value === undefined || value === null) {
 				return value;
 			}
-			return this.check(value);
+			return this.check(value, options);
 		});
+		return this.derive(wrapped, { check: 'optional', parser: this });
 	};
 
-	nullable = (): Parser<T | null> => {
-		return new Parser<T | null>((v: any) => {
+	nullable = (): Parser<T | null, I | null> => {
+		const wrapped = new Parser<T | null, I | null>((v: any, options) => {
 			if (v === null) {
 				return v;
 			}
-			return this.check(v);
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'nullable' });
 	};
 
-	default = (defaultv: T): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			try {
-				return this.check(v);
-			} catch {
-				return defaultv;
+	default = (defaultv: T): Parser<T, I | undefined> => {
+		const wrapped = new Parser<T, I | undefined>((v: any, options) => {
+			if ((options as any)[defaultWhenMissing]) {
+				return v === undefined ? defaultv : this.check(v, options);
 			}
+			return attempt(
+				() => this.check(v, options),
+				(e) => {
+					if (!(e instanceof PRSEError)) {
+						throw e;
+					}
+					return defaultv;
+				}
+			);
+		});
+		return this.derive(wrapped, { check: 'default', value: defaultv, parser: this });
+	};
+
+	map = <R>(transform: (v: T) => R): Parser<R, I> => {
+		const wrapped = new Parser<R, I>((v: any, options) => {
+			return whenDone(this.check(v, options), transform);
 		});
+		return this.derive(wrapped, { check: 'map', transform });
 	};
 
-	map = <R>(transform: (v: T) => R): Parser<R> => {
-		return new Parser<R>((v: any) => {
-			return transform(this.check(v));
+	readonly = (options: { throwOnMutation?: boolean } = {}): ReadonlyParser<T, I> => {
+		const wrapped: ReadonlyParser<T, I> = new Parser<DeepReadonly<T>, I>((v: any, parseOptions) => {
+			return whenDone(this.check(v, parseOptions), (result) => (options.throwOnMutation ? readonlyProxy(result) : frozenCopy(result)));
 		});
+		return this.derive(wrapped, { check: 'readonly', throwOnMutation: options.throwOnMutation === true });
 	};
 
-	range = (min: number, max: number): Parser<T> => {
-		return this.map((v: any) => {
-			if (typeof v === 'number') {
-				assert(v >= min && v <= max, `Value must be between ${min} and ${max}`);
+	mapAsync = <R>(transform: (v: T) => Promise<R>): Parser<R, I> => {
+		const wrapped = new Parser<R, I>((v: any, options) => {
+			assertAsync(options, 'mapAsync');
+			return whenDone(this.check(v, options), (result) => new Pending(transform(result)));
+		});
+		return this.derive(wrapped, { check: 'mapAsync', transform });
+	};
+
+	range = (min: number, max: number): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			if (typeof v === 'number' || typeof v === 'bigint') {
+				assert(v >= min, `Value must be between ${min} and ${max}`, { check: 'range', code: 'too_small', expected: min, received: v });
+				assert(v <= max, `Value must be between ${min} and ${max}`, { check: 'range', code: 'too_big', expected: max, received: v });
 			} else if (typeof v === 'string' || Array.isArray(v)) {
-				assert(v.length >= min && v.length <= max, `Length must be between ${min} and ${max}`);
+				assert(v.length >= min, `Length must be between ${min} and ${max}`, { check: 'range', code: 'too_small', expected: min, received: v.length });
+				assert(v.length <= max, `Length must be between ${min} and ${max}`, { check: 'range', code: 'too_big', expected: max, received: v.length });
 			} else if (typeof v === 'object' && v !== null) {
 				const keys = Object.keys(v);
-				assert(keys.length >= min && keys.length <= max, `Number of keys must be between ${min} and ${max}`);
+				assert(keys.length >= min, `Number of keys must be between ${min} and ${max}`, { check: 'range', code: 'too_small', expected: min, received: keys.length });
+				assert(keys.length <= max, `Number of keys must be between ${min} and ${max}`, { check: 'range', code: 'too_big', expected: max, received: keys.length });
 			} else {
-				throw new PRSEError('Invalid type for range validation');
+				throw new PRSEError('Invalid type for range validation', { check: 'range', code: 'invalid_type', received: typeOf(v) });
 			}
 			return v;
 		});
+		return this.derive(wrapped, { check: 'range', min, max });
 	};
 
-	before = (max: number): Parser<T> => {
-		return this.map((v: any) => {
-			assert(v.getTime() < new Date(max).getTime(), `Date must be before ${max}`);
-			return v;
+	private checkDate = (check: string, params: ParserCheck, test: (v: Date, now: Date) => void): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			return whenDone(this.check(v, options), (result) => {
+				assert(result instanceof Date && !isNaN(result.getTime()), 'Expected a valid date', { check, code: 'invalid_type', expected: 'date', received: typeOf(result) });
+				test(result as any, now(options));
+				return result;
+			});
 		});
+		return this.derive(wrapped, params);
 	};
 
-	after = (max: number): Parser<T> => {
-		return this.map((v: any) => {
-			assert(v.getTime() > new Date(max).getTime(), `Date must be after ${max}`);
-			return v;
+	before = (max: DateInput): Parser<T, I> => {
+		return this.checkDate('before', { check: 'before', max }, (v) => {
+			assert(v.getTime() < toDate(max).getTime(), `Date must be before ${describeDate(max)}`, { check: 'before', code: 'too_big', expected: toDate(max), received: v });
 		});
 	};
 
-	sameDateAs = (max: number): Parser<T> => {
-		return this.map((v: any) => {
-			assert(v.getTime() === new Date(max).getTime(), `Date must be same as ${max}`);
-			return v;
+	after = (min: DateInput): Parser<T, I> => {
+		return this.checkDate('after', { check: 'after', min }, (v) => {
+			assert(v.getTime() > toDate(min).getTime(), `Date must be after ${describeDate(min)}`, { check: 'after', code: 'too_small', expected: toDate(min), received: v });
 		});
 	};
 
-	lessThan = (max: number): Parser<T> => {
-		return this.map((v: any) => {
-			if (typeof v === 'number') {
-				assert(v < max, `Value must be less than ${max}`);
-			} else if (typeof v === 'string' || Array.isArray(v)) {
-				assert(v.length < max, `Length must be less than ${max}`);
-			} else if (typeof v === 'object' && v !== null) {
-				assert(Object.keys(v).length < max, `Number of keys must be less than ${max}`);
-			} else {
-				throw new PRSEError('Invalid type for lessThan validation');
-			}
-			return v;
+	minDate = (min: DateInput): Parser<T, I> => {
+		return this.checkDate('minDate', { check: 'minDate', min }, (v) => {
+			assert(v.getTime() >= toDate(min).getTime(), `Date must not be before ${describeDate(min)}`, { check: 'minDate', code: 'too_small', expected: toDate(min), received: v });
 		});
 	};
 
-	moreThan = (min: number): Parser<T> => {
-		return this.map((v: any) => {
-			if (typeof v === 'number') {
-				assert(v > min, `Value must be greater than ${min}`);
-			} else if (typeof v === 'string' || Array.isArray(v)) {
-				assert(v.length > min, `Length must be greater than ${min}`);
-			} else if (typeof v === 'object' && v !== null) {
-				const keys = Object.keys(v);
-				assert(keys.length > min, `Number of keys must be greater than ${min}`);
-			} else {
-				throw new PRSEError('Invalid type for moreThan validation');
-			}
-			return v;
+	maxDate = (max: DateInput): Parser<T, I> => {
+		return this.checkDate('maxDate', { check: 'maxDate', max }, (v) => {
+			assert(v.getTime() <= toDate(max).getTime(), `Date must not be after ${describeDate(max)}`, { check: 'maxDate', code: 'too_big', expected: toDate(max), received: v });
 		});
 	};
 
-	lessThanOrEqualTo = (max: number): Parser<T> => {
-		return this.map((v: any) => {
-			if (typeof v === 'number') {
-				assert(v <= max, `Value must be less than or equal to ${max}`);
-			} else if (typeof v === 'string' || Array.isArray(v)) {
-				assert(v.length <= max, `Length must be less than or equal to ${max}`);
-			} else if (typeof v === 'object' && v !== null) {
-				const keys = Object.keys(v);
-				assert(keys.length <= max, `Number of keys must be less than or equal to ${max}`);
-			} else {
-				throw new PRSEError('Invalid type for lessThanOrEqualTo validation');
-			}
-			return v;
+	sameDateAs = (other: DateInput): Parser<T, I> => {
+		return this.checkDate('sameDateAs', { check: 'sameDateAs', value: other }, (v) => {
+			assert(v.getTime() === toDate(other).getTime(), `Date must be same as ${describeDate(other)}`, { check: 'sameDateAs', code: 'invalid_value', expected: toDate(other), received: v });
 		});
 	};
 
-	moreThanOrEqualTo = (min: number): Parser<T> => {
-		return this.map((v: any) => {
-			if (typeof v === 'number') {
-				assert(v >= min, `Value must be greater than or equal to ${min}`);
-			} else if (typeof v === 'string' || Array.isArray(v)) {
-				assert(v.length >= min, `Length must be greater than or equal to ${min}`);
-			} else if (typeof v === 'object' && v !== null) {
-				const keys = Object.keys(v);
-				assert(keys.length >= min, `Number of keys must be greater than or equal to ${min}`);
-			} else {
-				throw new PRSEError('Invalid type for moreThanOrEqualTo validation');
-			}
+	sameDay = (other: DateInput, options: { timeZone?: string } = {}): Parser<T, I> => {
+		return this.checkDate('sameDay', { check: 'sameDay', value: other, timeZone: options.timeZone }, (v) => {
+			const day = calendarDayOf(other, options.timeZone);
+			assert(calendarDay(v, options.timeZone) === day, `Date must be on ${day}`, { check: 'sameDay', code: 'invalid_value', expected: day, received: v });
+		});
+	};
+
+	inFuture = (): Parser<T, I> => {
+		return this.checkDate('inFuture', { check: 'inFuture' }, (v, now) => {
+			assert(v.getTime() > now.getTime(), 'Date must be in the future', { check: 'inFuture', code: 'too_small', expected: now, received: v });
+		});
+	};
+
+	inPast = (): Parser<T, I> => {
+		return this.checkDate('inPast', { check: 'inPast' }, (v, now) => {
+			assert(v.getTime() < now.getTime(), 'Date must be in the past', { check: 'inPast', code: 'too_big', expected: now, received: v });
+		});
+	};
+
+	withinLast = (duration: Duration): Parser<T, I> => {
+		return this.checkDate('withinLast', { check: 'withinLast', duration }, (v, now) => {
+			const min = new Date(now.getTime() - durationOf(duration));
+			assert(v.getTime() >= min.getTime(), `Date must not be before ${min.toISOString()}`, { check: 'withinLast', code: 'too_small', expected: min, received: v });
+			assert(v.getTime() <= now.getTime(), 'Date must not be in the future', { check: 'withinLast', code: 'too_big', expected: now, received: v });
+		});
+	};
+
+	withinNext = (duration: Duration): Parser<T, I> => {
+		return this.checkDate('withinNext', { check: 'withinNext', duration }, (v, now) => {
+			const max = new Date(now.getTime() + durationOf(duration));
+			assert(v.getTime() >= now.getTime(), 'Date must not be in the past', { check: 'withinNext', code: 'too_small', expected: now, received: v });
+			assert(v.getTime() <= max.getTime(), `Date must not be after ${max.toISOString()}`, { check: 'withinNext', code: 'too_big', expected: max, received: v });
+		});
+	};
+
+	weekday = (options: { timeZone?: string } = {}): Parser<T, I> => {
+		return this.checkDate('weekday', { check: 'weekday', timeZone: options.timeZone }, (v) => {
+			const day = dayOfWeek(v, options.timeZone);
+			assert(day !== 0 && day !== 6, 'Date must be a weekday', { check: 'weekday', code: 'invalid_value', expected: 'weekday', received: v });
+		});
+	};
+
+	businessDay = (options: { timeZone?: string; holidays?: DateInput[] } = {}): Parser<T, I> => {
+		const holidays = (options.holidays || []).map((holiday) => calendarDayOf(holiday, options.timeZone));
+		return this.checkDate('businessDay', { check: 'businessDay', timeZone: options.timeZone, holidays }, (v) => {
+			const day = dayOfWeek(v, options.timeZone);
+			assert(day !== 0 && day !== 6 && !holidays.includes(calendarDay(v, options.timeZone)), 'Date must be a business day', { check: 'businessDay', code: 'invalid_value', expected: 'business day', received: v });
+		});
+	};
+
+	private checkBytes = (params: ParserCheck, test: (v: any, size: number, options: ParseOptions) => any): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			return whenDone(this.check(v, options), (result) => {
+				const size = byteSizeOf(result);
+				assert(!isNaN(size), 'Expected binary data', { check: params.check, code: 'invalid_type', expected: 'binary', received: typeOf(result) });
+				return whenDone(test(result, size, options), () => result);
+			});
+		});
+		return this.derive(wrapped, params);
+	};
+
+	byteLength = (length: number): Parser<T, I> => {
+		return this.checkBytes({ check: 'byteLength', length }, (_, size) => {
+			assert(size === length, `Size must be exactly ${length} bytes`, { check: 'byteLength', code: size < length ? 'too_small' : 'too_big', expected: length, received: size });
+		});
+	};
+
+	minByteLength = (min: number): Parser<T, I> => {
+		return this.checkBytes({ check: 'minByteLength', min }, (_, size) => {
+			assert(size >= min, `Size must be at least ${min} bytes`, { check: 'minByteLength', code: 'too_small', expected: min, received: size });
+		});
+	};
+
+	maxByteLength = (max: number): Parser<T, I> => {
+		return this.checkBytes({ check: 'maxByteLength', max }, (_, size) => {
+			assert(size <= max, `Size must be at most ${max} bytes`, { check: 'maxByteLength', code: 'too_big', expected: max, received: size });
+		});
+	};
+
+	elementRange = (min: number | bigint, max: number | bigint): Parser<T, I> => {
+		return this.checkBytes({ check: 'elementRange', min, max }, (v, _, options) => {
+			assert(ArrayBuffer.isView(v) && !(v instanceof DataView), 'Expected a typed array', { check: 'elementRange', code: 'invalid_type', expected: 'typed array', received: typeOf(v) });
+			const items = v as any;
+			const invalid: any[] = [];
+			for (let i = 0; i < items.length; i++) {
+				if (!(items[i] >= min && items[i] <= max)) {
+					invalid.push(
+						checkAt(i, options, () => {
+							throw new PRSEError(`Value must be between ${min} and ${max}`, { check: 'elementRange', code: items[i] < min ? 'too_small' : 'too_big', expected: items[i] < min ? min : max, received: items[i] });
+						})
+					);
+				}
+			}
+			return collect(invalid, () => v);
+		});
+	};
+
+	fileType = (types: FileType[]): Parser<T, I> => {
+		const test = (bytes: Uint8Array) => {
+			const type = fileTypeOf(bytes);
+			assert(type !== undefined && types.includes(type), `Expected a file of type ${types.join(', ')}`, { check: 'fileType', code: 'invalid_value', expected: types, received: type || 'unknown' });
+		};
+		return this.checkBytes({ check: 'fileType', types }, (v, _, options) => {
+			if (!isBlob(v)) {
+				return test(bytesOf(v));
+			}
+			assertAsync(options, 'fileType');
+			return new Pending(
+				v
+					.slice(0, 16)
+					.arrayBuffer()
+					.then((buffer) => test(new Uint8Array(buffer)))
+			);
+		});
+	};
+
+	lessThan = (max: number): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			if (typeof v === 'number' || typeof v === 'bigint') {
+				assert(v < max, `Value must be less than ${max}`, { check: 'lessThan', code: 'too_big', expected: max, received: v });
+			} else if (typeof v === 'string' || Array.isArray(v)) {
+				assert(v.length < max, `Length must be less than ${max}`, { check: 'lessThan', code: 'too_big', expected: max, received: v.length });
+			} else if (typeof v === 'object' && v !== null) {
+				assert(Object.keys(v).length < max, `Number of keys must be less than ${max}`, { check: 'lessThan', code: 'too_big', expected: max, received: Object.keys(v).length });
+			} else {
+				throw new PRSEError('Invalid type for lessThan validation', { check: 'lessThan', code: 'invalid_type', received: typeOf(v) });
+			}
 			return v;
 		});
+		return this.derive(wrapped, { check: 'lessThan', max });
 	};
 
-	custom = (validateFn: (v: T) => boolean, errorMessage = 'Custom validation failed'): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			const result = this.check(v);
-			assert(validateFn(result), errorMessage);
-			return result;
+	moreThan = (min: number): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			if (typeof v === 'number' || typeof v === 'bigint') {
+				assert(v > min, `Value must be greater than ${min}`, { check: 'moreThan', code: 'too_small', expected: min, received: v });
+			} else if (typeof v === 'string' || Array.isArray(v)) {
+				assert(v.length > min, `Length must be greater than ${min}`, { check: 'moreThan', code: 'too_small', expected: min, received: v.length });
+			} else if (typeof v === 'object' && v !== null) {
+				const keys = Object.keys(v);
+				assert(keys.length > min, `Number of keys must be greater than ${min}`, { check: 'moreThan', code: 'too_small', expected: min, received: keys.length });
+			} else {
+				throw new PRSEError('Invalid type for moreThan validation', { check: 'moreThan', code: 'invalid_type', received: typeOf(v) });
+			}
+			return v;
+		});
+		return this.derive(wrapped, { check: 'moreThan', min });
+	};
+
+	lessThanOrEqualTo = (max: number): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			if (typeof v === 'number' || typeof v === 'bigint') {
+				assert(v <= max, `Value must be less than or equal to ${max}`, { check: 'lessThanOrEqualTo', code: 'too_big', expected: max, received: v });
+			} else if (typeof v === 'string' || Array.isArray(v)) {
+				assert(v.length <= max, `Length must be less than or equal to ${max}`, { check: 'lessThanOrEqualTo', code: 'too_big', expected: max, received: v.length });
+			} else if (typeof v === 'object' && v !== null) {
+				const keys = Object.keys(v);
+				assert(keys.length <= max, `Number of keys must be less than or equal to ${max}`, { check: 'lessThanOrEqualTo', code: 'too_big', expected: max, received: keys.length });
+			} else {
+				throw new PRSEError('Invalid type for lessThanOrEqualTo validation', { check: 'lessThanOrEqualTo', code: 'invalid_type', received: typeOf(v) });
+			}
+			return v;
+		});
+		return this.derive(wrapped, { check: 'lessThanOrEqualTo', max });
+	};
+
+	moreThanOrEqualTo = (min: number): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			if (typeof v === 'number' || typeof v === 'bigint') {
+				assert(v >= min, `Value must be greater than or equal to ${min}`, { check: 'moreThanOrEqualTo', code: 'too_small', expected: min, received: v });
+			} else if (typeof v === 'string' || Array.isArray(v)) {
+				assert(v.length >= min, `Length must be greater than or equal to ${min}`, { check: 'moreThanOrEqualTo', code: 'too_small', expected: min, received: v.length });
+			} else if (typeof v === 'object' && v !== null) {
+				const keys = Object.keys(v);
+				assert(keys.length >= min, `Number of keys must be greater than or equal to ${min}`, { check: 'moreThanOrEqualTo', code: 'too_small', expected: min, received: keys.length });
+			} else {
+				throw new PRSEError('Invalid type for moreThanOrEqualTo validation', { check: 'moreThanOrEqualTo', code: 'invalid_type', received: typeOf(v) });
+			}
+			return v;
+		});
+		return this.derive(wrapped, { check: 'moreThanOrEqualTo', min });
+	};
+
+	custom = (validateFn: (v: T) => boolean, errorMessage = 'Custom validation failed'): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			return whenDone(this.check(v, options), (result) => {
+				assert(validateFn(result), errorMessage, { check: 'custom', code: 'custom', received: result });
+				return result;
+			});
+		});
+		return this.derive(wrapped, { check: 'custom', validateFn, message: errorMessage });
+	};
+
+	customAsync = (validateFn: (v: T) => Promise<boolean>, errorMessage = 'Custom validation failed'): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assertAsync(options, 'customAsync');
+			return whenDone(
+				this.check(v, options),
+				(result) =>
+					new Pending(
+						validateFn(result).then((valid) => {
+							assert(valid, errorMessage, { check: 'customAsync', code: 'custom', received: result });
+							return result;
+						})
+					)
+			);
 		});
+		return this.derive(wrapped, { check: 'customAsync', validateFn, message: errorMessage });
+	};
+
+	refineAsync = (...args: Parameters<typeof this.customAsync>): ReturnType<typeof this.customAsync> => {
+		return this.customAsync(...args);
 	};
 
-	conditional = <R>(predicateFn: (v: T) => boolean, trueParser: Parser<R>, falseParser: Parser<R> = unknown()): Parser<R> => {
-		return new Parser<R>((v: any) => {
-			const result = this.check(v);
-			return predicateFn(result) ? trueParser.check(result) : falseParser.check(result);
+	conditional = <R>(predicateFn: (v: T) => boolean, trueParser: Parser<R, any>, falseParser: Parser<R, any> = unknown()): Parser<R, I> => {
+		const wrapped = new Parser<R, I>((v: any, options) => {
+			return whenDone(this.check(v, options), (result) => (predicateFn(result) ? trueParser.check(result, options) : falseParser.check(result, options)));
 		});
+		return this.derive(wrapped, { check: 'conditional', predicateFn, trueParser, falseParser });
 	};
 
-	union = (...parsers: Parser<any>[]): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			for (const parser of parsers) {
-				try {
-					return parser.check(v);
-				} catch (e) {
-					if (e instanceof PRSEError) {
-						continue;
+	union = <P extends Parser<any, any>[]>(...parsers: P): Parser<Infer<P[number]>, InferInput<P[number]>> => {
+		return native(
+			define<Infer<P[number]>, InferInput<P[number]>>({ type: 'union', checks: [], options: parsers }, (v: any, options) => {
+				return firstValid(
+					parsers.map((parser) => () => parser.check(v, options)),
+					(issues) => {
+						throw new PRSEError('Value does not match any of the union types', { check: 'union', code: 'invalid_union', received: v, issues });
 					}
-					throw e;
+				);
+			})
+		);
+	};
+
+	combine = <R>(parser: Parser<R, any>): Parser<R, I> => {
+		const wrapped = new Parser<R, I>((v: any, options) => {
+			return whenDone(this.check(v, options), (result1) => parser.check(result1, options));
+		});
+		return this.derive(wrapped, { check: 'combine', parser });
+	};
+
+	secret = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			return attempt(
+				() => this.check(v, options),
+				(e) => {
+					if (!(e instanceof PRSEError)) {
+						throw e;
+					}
+					const hide = (message: string) => (typeof v === 'string' && v !== '' ? message.split(v).join('***') : message);
+					throw new PRSEError(
+						hide(e.message),
+						{ ...e, received: '***' },
+						e.issues.map((issue) => ({ ...issue, message: hide(issue.message), received: '***' }))
+					);
 				}
-			}
-			throw new PRSEError('Value does not match any of the union types');
+			);
+		});
+		return this.derive(wrapped, { check: 'secret' });
+	};
+
+	transform = <R>(transform: (v: T, ctx: RefinementContext) => R): Parser<R, I> => {
+		const wrapped = new Parser<R, I>((v: any, options) => {
+			return whenDone(this.check(v, options), (result) => withContext('transform', result, (ctx) => transform(result, ctx)));
 		});
+		return this.derive(wrapped, { check: 'transform', transform });
 	};
 
-	combine = <R>(parser: Parser<R>): Parser<R> => {
-		return new Parser<R>((v: any) => {
-			const result1 = this.check(v);
-			const result2 = parser.check(result1);
-			return result2;
+	superRefine = (refine: (v: T, ctx: RefinementContext) => void): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			return whenDone(this.check(v, options), (result) =>
+				withContext('superRefine', result, (ctx) => {
+					refine(result, ctx);
+					return result;
+				})
+			);
 		});
+		return this.derive(wrapped, { check: 'superRefine', refine });
 	};
 
-	required = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(v !== undefined && v !== null, 'Field is required');
-			return this.check(v);
+	pipe = <R, RI>(parser: Parser<R, RI> & ([T] extends [RI] ? unknown : never)): Parser<R, I> => {
+		const wrapped = new Parser<R, I>((v: any, options) => {
+			return whenDone(this.check(v, options), (result) => parser.check(result, options));
 		});
+		return this.derive(wrapped, { check: 'pipe', parser });
 	};
 
-	prohibited = (): Parser<undefined | null> => {
-		return new Parser<undefined | null>((v: any) => {
-			assert(v === undefined || v === null, 'Field is prohibited');
+	required<S extends Shape, L extends boolean, E>(this: ObjectParser<S, L, E>): ObjectParser<RequiredShape<S>, L, E>;
+	required(): Parser<Exclude<T, undefined | null>, I>;
+	required(): Parser<any, any> {
+		if (this instanceof ObjectParser) {
+			return requiredFields(this);
+		}
+		const wrapped = new Parser<Exclude<T, undefined | null>, I>((v: any, options) => {
+			assert(v !== undefined && v !== null, 'Field is required', { check: 'required', code: 'invalid_type', expected: 'defined', received: typeOf(v) });
+			return this.check(v, options) as Exclude<T, undefined | null>;
+		});
+		return this.derive(wrapped, { check: 'required' });
+	}
+
+	prohibited = (): Parser<undefined | null, I | undefined | null> => {
+		const wrapped = new Parser<undefined | null, I | undefined | null>((v: any) => {
+			assert(v === undefined || v === null, 'Field is prohibited', { check: 'prohibited', code: 'invalid_type', expected: 'undefined', received: typeOf(v) });
 			return v;
 		});
+		return this.derive(wrapped, { check: 'prohibited' });
 	};
 
-	pattern = (regex: RegExp): Parser<T> => {
-		return this.map((v: any) => {
+	pattern = (regex: RegExp): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string') {
-				assert(regex.test(v), 'Value does not match pattern');
+				assert(regex.test(v), 'Value does not match pattern', { check: 'pattern', code: 'pattern_mismatch', expected: regex.source, received: v });
 			} else if (Array.isArray(v)) {
 				for (const item of v) {
 					if (typeof item === 'string') {
-						assert(regex.test(item), 'Array element does not match pattern');
+						assert(regex.test(item), 'Array element does not match pattern', { check: 'pattern', code: 'pattern_mismatch', expected: regex.source, received: item });
 					} else {
-						throw new PRSEError('Array contains non-string elements');
+						throw new PRSEError('Array contains non-string elements', { check: 'pattern', code: 'invalid_type', expected: 'string' });
 					}
 				}
 			} else if (typeof v === 'object' && v !== null) {
 				for (const value of Object.values(v)) {
 					if (typeof value === 'string') {
-						assert(regex.test(value), 'Object value does not match pattern');
+						assert(regex.test(value), 'Object value does not match pattern', { check: 'pattern', code: 'pattern_mismatch', expected: regex.source, received: value });
 					} else {
-						throw new PRSEError('Object contains non-string values');
+						throw new PRSEError('Object contains non-string values', { check: 'pattern', code: 'invalid_type', expected: 'string' });
 					}
 				}
 			} else {
-				throw new PRSEError('Invalid type for pattern validation');
+				throw new PRSEError('Invalid type for pattern validation', { check: 'pattern', code: 'invalid_type', received: typeOf(v) });
 			}
 			return v;
 		});
+		return this.derive(wrapped, { check: 'pattern', regex });
 	};
 
-	minLength = (min: number): Parser<T> => {
-		return new Parser<T>((v: any) => {
+	minLength = (min: number): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string') {
-				assert(v.length >= min, `String must be at least ${min} characters long`);
+				assert(v.length >= min, `String must be at least ${min} characters long`, { check: 'minLength', code: 'too_small', expected: min, received: v.length });
 			} else if (Array.isArray(v)) {
-				assert(v.length >= min, `Array must have at least ${min} elements`);
+				assert(v.length >= min, `Array must have at least ${min} elements`, { check: 'minLength', code: 'too_small', expected: min, received: v.length });
 			} else if (typeof v === 'number') {
-				assert(v.toString().length >= min, `Number must be at least ${min} digits long`);
+				assert(v.toString().length >= min, `Number must be at least ${min} digits long`, { check: 'minLength', code: 'too_small', expected: min, received: v.toString().length });
 			} else if (typeof v === 'object' && v !== null) {
 				const keys = Object.keys(v);
-				assert(keys.length >= min, `Object must have at least ${min} keys`);
+				assert(keys.length >= min, `Object must have at least ${min} keys`, { check: 'minLength', code: 'too_small', expected: min, received: keys.length });
 			} else {
-				throw new PRSEError('Invalid type for minLength validation');
+				throw new PRSEError('Invalid type for minLength validation', { check: 'minLength', code: 'invalid_type', received: typeOf(v) });
 			}
-			return this.check(v);
+			return v;
 		});
+		return this.derive(wrapped, { check: 'minLength', min });
 	};
 
-	maxLength = (max: number): Parser<T> => {
-		return new Parser<T>((v: any) => {
+	maxLength = (max: number): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string') {
-				assert(v.length <= max, `String must be at most ${max} characters long`);
+				assert(v.length <= max, `String must be at most ${max} characters long`, { check: 'maxLength', code: 'too_big', expected: max, received: v.length });
 			} else if (Array.isArray(v)) {
-				assert(v.length <= max, `Array must have at most ${max} elements`);
+				assert(v.length <= max, `Array must have at most ${max} elements`, { check: 'maxLength', code: 'too_big', expected: max, received: v.length });
 			} else if (typeof v === 'number') {
-				assert(v.toString().length <= max, `Number must be at most ${max} digits long`);
+				assert(v.toString().length <= max, `Number must be at most ${max} digits long`, { check: 'maxLength', code: 'too_big', expected: max, received: v.toString().length });
 			} else if (typeof v === 'object' && v !== null) {
 				const keys = Object.keys(v);
-				assert(keys.length <= max, `Object must have at most ${max} keys`);
+				assert(keys.length <= max, `Object must have at most ${max} keys`, { check: 'maxLength', code: 'too_big', expected: max, received: keys.length });
 			} else {
-				throw new PRSEError('Invalid type for maxLength validation');
+				throw new PRSEError('Invalid type for maxLength validation', { check: 'maxLength', code: 'invalid_type', received: typeOf(v) });
 			}
-			return this.check(v);
+			return v;
 		});
+		return this.derive(wrapped, { check: 'maxLength', max });
 	};
 
-	length = (length: number): Parser<T> => {
-		return new Parser<T>((v: any) => {
+	length = (length: number): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string') {
-				assert(v.length === length, `String must be exactly ${length} characters long`);
+				assert(v.length === length, `String must be exactly ${length} characters long`, { check: 'length', code: v.length < length ? 'too_small' : 'too_big', expected: length, received: v.length });
 			} else if (Array.isArray(v)) {
-				assert(v.length === length, `Array must have exactly ${length} elements`);
+				assert(v.length === length, `Array must have exactly ${length} elements`, { check: 'length', code: v.length < length ? 'too_small' : 'too_big', expected: length, received: v.length });
 			} else if (typeof v === 'number') {
 				const numStr = v.toString();
-				assert(numStr.length === length, `Number must have exactly ${length} digits`);
+				assert(numStr.length === length, `Number must have exactly ${length} digits`, { check: 'length', code: numStr.length < length ? 'too_small' : 'too_big', expected: length, received: numStr.length });
 			} else if (typeof v === 'object' && v !== null) {
 				const keys = Object.keys(v);
-				assert(keys.length === length, `Object must have exactly ${length} keys`);
+				assert(keys.length === length, `Object must have exactly ${length} keys`, { check: 'length', code: keys.length < length ? 'too_small' : 'too_big', expected: length, received: keys.length });
 			} else {
-				throw new PRSEError('Invalid type for length validation');
+				throw new PRSEError('Invalid type for length validation', { check: 'length', code: 'invalid_type', received: typeOf(v) });
 			}
-			return this.check(v);
+			return v;
 		});
+		return this.derive(wrapped, { check: 'length', length });
 	};
 
-	equalTo = (expected: any): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(v == expected, `Expected to be equal to: ${expected}`);
+	equalTo = (expected: any): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			assert(v == expected, `Expected to be equal to: ${expected}`, { check: 'equalTo', code: 'invalid_value', expected, received: v });
 			return v;
 		});
+		return this.derive(wrapped, { check: 'equalTo', value: expected });
 	};
 
-	strictlyEqualTo = (expected: any): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(v === expected, `Expected to be strictly equal to: ${expected}`);
+	strictlyEqualTo = (expected: any): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			assert(v === expected, `Expected to be strictly equal to: ${expected}`, { check: 'strictlyEqualTo', code: 'invalid_value', expected, received: v });
 			return v;
 		});
+		return this.derive(wrapped, { check: 'strictlyEqualTo', value: expected });
 	};
 
-	notEqualTo = (unexpected: any): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(v != unexpected, `Expected to not be equal to: ${unexpected}`);
+	notEqualTo = (unexpected: any): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			assert(v != unexpected, `Expected to not be equal to: ${unexpected}`, { check: 'notEqualTo', code: 'invalid_value', received: v });
 			return v;
 		});
+		return this.derive(wrapped, { check: 'notEqualTo', value: unexpected });
 	};
 
-	oneOf = (allowed: any[]): Parser<T> => {
-		return new Parser<T>((v: any) => {
+	oneOf = (allowed: any[]): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string') {
-				assert(allowed.includes(v), `Expected one of: ${allowed.join(', ')}`);
+				assert(allowed.includes(v), `Expected one of: ${allowed.join(', ')}`, { check: 'oneOf', code: 'not_in_enum', expected: allowed, received: v });
 			} else if (Array.isArray(v)) {
 				for (const item of v) {
-					assert(allowed.includes(item), `Expected one of: ${allowed.join(', ')}`);
+					assert(allowed.includes(item), `Expected one of: ${allowed.join(', ')}`, { check: 'oneOf', code: 'not_in_enum', expected: allowed, received: item });
 				}
 			} else if (typeof v === 'object' && v !== null) {
 				const values = Object.values(v);
 				for (const item of values) {
-					assert(allowed.includes(item), `Expected one of: ${allowed.join(', ')}`);
+					assert(allowed.includes(item), `Expected one of: ${allowed.join(', ')}`, { check: 'oneOf', code: 'not_in_enum', expected: allowed, received: item });
 				}
 			} else {
-				throw new PRSEError('Invalid type for oneOf validation');
+				throw new PRSEError('Invalid type for oneOf validation', { check: 'oneOf', code: 'invalid_type', received: typeOf(v) });
 			}
-			return this.check(v);
+			return v;
 		});
+		return this.derive(wrapped, { check: 'oneOf', values: allowed });
 	};
 
-	finiteNumber = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
+	finiteNumber = (): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (Array.isArray(v)) {
 				for (const item of v) {
-					assert(Number.isFinite(item), 'Expected all elements of the array to be finite numbers');
+					assert(Number.isFinite(item), 'Expected all elements of the array to be finite numbers', { check: 'finiteNumber', code: 'invalid_value', expected: 'finite number', received: item });
 				}
 			} else if (typeof v === 'object' && v !== null) {
 				const values = Object.values(v);
 				for (const item of values) {
-					assert(Number.isFinite(item), 'Expected all values of the object to be finite numbers');
+					assert(Number.isFinite(item), 'Expected all values of the object to be finite numbers', { check: 'finiteNumber', code: 'invalid_value', expected: 'finite number', received: item });
 				}
 			} else {
-				assert(Number.isFinite(v), 'Expected a finite number');
+				assert(Number.isFinite(v), 'Expected a finite number', { check: 'finiteNumber', code: 'invalid_value', expected: 'finite number', received: v });
 			}
-			return this.check(v);
+			return v;
 		});
+		return this.derive(wrapped, { check: 'finiteNumber' });
 	};
 
-	customErrorHandler = (customHandler: (error: Error) => Error): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			try {
-				return this.check(v);
-			} catch (e) {
-				throw customHandler(e);
-			}
+	customErrorHandler = (customHandler: (error: Error) => Error): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			return attempt(
+				() => this.check(v, options),
+				(e) => {
+					throw customHandler(e);
+				}
+			);
 		});
+		return this.derive(wrapped, { check: 'customErrorHandler', customHandler });
 	};
 
-	first = (substring: string): Parser<T> => {
-		return this.map((v: any) => {
+	first = (substring: string): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string') {
-				assert(v.startsWith(substring), `String must start with "${substring}"`);
+				assert(v.startsWith(substring), `String must start with "${substring}"`, { check: 'first', code: 'invalid_value', expected: substring, received: v });
 			} else if (Array.isArray(v)) {
-				assert(typeof v[0] === 'string' && v[0] == substring, `Array's first element must be "${substring}"`);
+				assert(typeof v[0] === 'string' && v[0] == substring, `Array's first element must be "${substring}"`, { check: 'first', code: 'invalid_value', expected: substring, received: v });
 			} else if (typeof v === 'object' && v !== null) {
 				const firstValue = Object.values(v)[0];
-				assert(typeof firstValue === 'string' && firstValue == substring, `Object's first value must be "${substring}"`);
+				assert(typeof firstValue === 'string' && firstValue == substring, `Object's first value must be "${substring}"`, { check: 'first', code: 'invalid_value', expected: substring, received: v });
 			} else {
-				throw new PRSEError('startsWith method only works with strings, arrays, or objects');
+				throw new PRSEError('startsWith method only works with strings, arrays, or objects', { check: 'first', code: 'invalid_type', received: typeOf(v) });
 			}
 			return v;
 		});
+		return this.derive(wrapped, { check: 'first', value: substring });
 	};
 
-	last = (substring: string): Parser<T> => {
-		return this.map((v: any) => {
+	last = (substring: string): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string') {
-				assert(v.endsWith(substring), `String must end with "${substring}"`);
+				assert(v.endsWith(substring), `String must end with "${substring}"`, { check: 'last', code: 'invalid_value', expected: substring, received: v });
 			} else if (Array.isArray(v)) {
 				const lastElement = v[v.length - 1];
-				assert(typeof lastElement === 'string' && lastElement == substring, `Array's last element must be "${substring}"`);
+				assert(typeof lastElement === 'string' && lastElement == substring, `Array's last element must be "${substring}"`, { check: 'last', code: 'invalid_value', expected: substring, received: v });
 			} else if (typeof v === 'object' && v !== null) {
 				const values = Object.values(v);
 				const lastValue = values[values.length - 1];
-				assert(typeof lastValue === 'string' && lastValue == substring, `Object's last value must be "${substring}"`);
+				assert(typeof lastValue === 'string' && lastValue == substring, `Object's last value must be "${substring}"`, { check: 'last', code: 'invalid_value', expected: substring, received: v });
 			} else {
-				throw new PRSEError('endsWith method only works with strings, arrays, or objects');
+				throw new PRSEError('endsWith method only works with strings, arrays, or objects', { check: 'last', code: 'invalid_type', received: typeOf(v) });
 			}
 			return v;
 		});
+		return this.derive(wrapped, { check: 'last', value: substring });
 	};
 
-	includes = (substring: string): Parser<T> => {
-		return this.map((v: any) => {
+	includes = (substring: string): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
 			if (typeof v === 'string') {
-				assert(v.includes(substring), `String must include "${substring}"`);
+				assert(v.includes(substring), `String must include "${substring}"`, { check: 'includes', code: 'invalid_value', expected: substring, received: v });
 			} else if (Array.isArray(v)) {
-				assert(v.includes(substring), `Array must include "${substring}"`);
+				assert(v.includes(substring), `Array must include "${substring}"`, { check: 'includes', code: 'invalid_value', expected: substring, received: v });
 			} else if (typeof v === 'object' && v !== null) {
-				assert(Object.keys(v).includes(substring), `Object keys must include "${substring}"`);
+				assert(Object.keys(v).includes(substring), `Object keys must include "${substring}"`, { check: 'includes', code: 'invalid_value', expected: substring, received: v });
 			} else {
-				throw new PRSEError('includes method only works with strings, arrays, or objects');
+				throw new PRSEError('includes method only works with strings, arrays, or objects', { check: 'includes', code: 'invalid_type', received: typeOf(v) });
 			}
 			return v;
 		});
+		return this.derive(wrapped, { check: 'includes', value: substring });
 	};
 
-	notNaN = (): Parser<number> => {
-		return this.map((v: any) => {
-			assert(!isNaN(v), 'Value must not be NaN');
+	notNaN = (): Parser<number, I> => {
+		const wrapped = this.map((v: any) => {
+			assert(!isNaN(v), 'Value must not be NaN', { check: 'notNaN', code: 'invalid_value', received: v });
 			return v;
 		});
+		return this.derive(wrapped, { check: 'notNaN' });
 	};
 
-	notZero = (): Parser<number> => {
-		return this.map((v: any) => {
-			assert(v !== 0, 'Value must not be zero');
+	notZero = (): Parser<number, I> => {
+		const wrapped = this.map((v: any) => {
+			assert(v !== 0, 'Value must not be zero', { check: 'notZero', code: 'invalid_value', received: v });
 			return v;
 		});
+		return this.derive(wrapped, { check: 'notZero' });
 	};
 
-	integer = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(Number.isInteger(v), 'Expected an integer');
-			return this.check(v);
+	integer = (): Parser<T, I> => {
+		const wrapped = this.map((v: any) => {
+			assert(Number.isInteger(v), 'Expected an integer', { check: 'integer', code: 'invalid_type', expected: 'integer', received: v });
+			return v;
 		});
+		return this.derive(wrapped, { check: 'integer' });
 	};
 
-	notString = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(typeof v !== 'string', 'Expected not a string');
-			return this.check(v);
+	notString = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(typeof v !== 'string', 'Expected not a string', { check: 'notString', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notString' });
 	};
 
-	notNumber = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(typeof v !== 'number', 'Expected not a number');
-			return this.check(v);
+	notNumber = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(typeof v !== 'number', 'Expected not a number', { check: 'notNumber', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notNumber' });
 	};
 
-	notBoolean = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(typeof v !== 'boolean', 'Expected not a boolean');
-			return this.check(v);
+	notBoolean = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(typeof v !== 'boolean', 'Expected not a boolean', { check: 'notBoolean', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notBoolean' });
 	};
 
-	notNull = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(v !== null, 'Expected not null');
-			return this.check(v);
+	notNull = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(v !== null, 'Expected not null', { check: 'notNull', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notNull' });
 	};
 
-	notUndefined = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(v !== undefined, 'Expected not undefined');
-			return this.check(v);
+	notUndefined = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(v !== undefined, 'Expected not undefined', { check: 'notUndefined', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notUndefined' });
 	};
 
-	notFunc = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(typeof v !== 'function', 'Expected not a function');
-			return this.check(v);
+	notFunc = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(typeof v !== 'function', 'Expected not a function', { check: 'notFunc', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notFunc' });
 	};
 
-	notSet = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(!(v instanceof Set), 'Expected not a Set');
-			return this.check(v);
+	notSet = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(!(v instanceof Set), 'Expected not a Set', { check: 'notSet', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notSet' });
 	};
 
-	notMap = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(!(v instanceof Map), 'Expected not a Map');
-			return this.check(v);
+	notMap = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(!(v instanceof Map), 'Expected not a Map', { check: 'notMap', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notMap' });
 	};
 
-	notArray = (): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			assert(!Array.isArray(v), 'Expected not an array');
-			return this.check(v);
+	notArray = (): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			assert(!Array.isArray(v), 'Expected not an array', { check: 'notArray', code: 'invalid_type', received: typeOf(v) });
+			return this.check(v, options);
 		});
+		return this.derive(wrapped, { check: 'notArray' });
 	};
 
-	ofClass = (className: string): Parser<T> => {
-		return this.custom((v: any) => v.constructor.name === className, `Expected an instance of class ${className}`);
+	ofClass = (className: string): Parser<T, I> => {
+		const wrapped = this.custom((v: any) => v.constructor.name === className, `Expected an instance of class ${className}`);
+		return this.derive(wrapped, { check: 'ofClass', className });
 	};
 
-	every = (parser: Parser<any>): Parser<T> => {
-		return new Parser<T>((v: any) => {
+	every = (parser: Parser<any>): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			let values: any[];
 			if (Array.isArray(v)) {
-				for (const entry of v) {
-					parser.check(entry);
-				}
+				values = v;
 			} else if (typeof v === 'object' && v !== null) {
-				for (const key in v) {
-					parser.check(v[key]);
-				}
+				values = Object.values(v);
 			} else {
-				throw new PRSEError('Every method only works with arrays or objects');
+				throw new PRSEError('Every method only works with arrays or objects', { check: 'every', code: 'invalid_type', received: typeOf(v) });
 			}
-			return this.check(v);
+			return whenAll(
+				values.map((value) => parser.check(value, options)),
+				() => this.check(v, options)
+			);
 		});
+		return this.derive(wrapped, { check: 'every', parser });
 	};
 
-	some = (parser: Parser<any>): Parser<T> => {
-		return new Parser<T>((v: any) => {
-			let isValid = false;
+	some = (parser: Parser<any>): Parser<T, I> => {
+		const wrapped = new Parser<T, I>((v: any, options) => {
+			let values: any[];
 			if (Array.isArray(v)) {
-				for (const entry of v) {
-					try {
-						parser.check(entry);
-						isValid = true;
-						break;
-					} catch (error) {}
-				}
+				values = v;
 			} else if (typeof v === 'object' && v !== null) {
-				for (const value in v) {
-					try {
-						parser.check(v[value]);
-						isValid = true;
-						break;
-					} catch (error) {}
-				}
+				values = Object.values(v);
 			} else {
-				throw new PRSEError('Some method only works with arrays or objects');
+				throw new PRSEError('Some method only works with arrays or objects', { check: 'some', code: 'invalid_type', received: typeOf(v) });
 			}
-			if (!isValid) {
-				throw new PRSEError('None of the elements/values match the parser');
-			}
-			return this.check(v);
+			const found = firstValid(
+				values.map((value) => () => parser.check(value, options)),
+				() => {
+					throw new PRSEError('None of the elements/values match the parser', { check: 'some', code: 'invalid_value' });
+				}
+			);
+			return whenDone(found, () => this.check(v, options));
+		});
+		return this.derive(wrapped, { check: 'some', parser });
+	};
+
+	private transformString = (check: string, transform: (v: string) => string, params: { [key: string]: any } = {}): Parser<string, I> => {
+		const wrapped = this.map((v: any) => {
+			assert(typeof v === 'string', 'Expected a string', { check, code: 'invalid_type', expected: 'string', received: typeOf(v) });
+			return transform(v);
+		});
+		return this.derive(wrapped, { check, transform, ...params });
+	};
+
+	trim = (): Parser<string, I> => {
+		return this.transformString('trim', (v) => v.trim());
+	};
+
+	toLowerCase = (): Parser<string, I> => {
+		return this.transformString('toLowerCase', (v) => v.toLowerCase());
+	};
+
+	toUpperCase = (): Parser<string, I> => {
+		return this.transformString('toUpperCase', (v) => v.toUpperCase());
+	};
+
+	normalize = (form: 'NFC' | 'NFD' | 'NFKC' | 'NFKD' = 'NFC'): Parser<string, I> => {
+		return this.transformString('normalize', (v) => v.normalize(form), { form });
+	};
+
+	collapseWhitespace = (): Parser<string, I> => {
+		return this.transformString('collapseWhitespace', (v) => v.trim().replace(/\s+/g, ' '));
+	};
+
+	truncate = (max: number): Parser<string, I> => {
+		return this.transformString('truncate', (v) => Array.from(v).slice(0, max).join(''), { max });
+	};
+
+	private matchFormat = (check: string, test: RegExp | ((v: string) => boolean), message: string, params: { [key: string]: any } = {}): Parser<string, I> => {
+		const wrapped = this.map((v: any) => {
+			assert(typeof v === 'string', message, { check, code: 'invalid_type', expected: 'string', received: typeOf(v) });
+			assert(typeof test === 'function' ? test(v) : test.test(v), message, { check, code: 'pattern_mismatch', expected: typeof test === 'function' ? check : test.source, received: v });
+			return v as string;
 		});
+		return this.derive(wrapped, { check, test, ...params });
+	};
+
+	email = (): Parser<string, I> => {
+		return this.matchFormat('email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Expected an email');
 	};
 
-	email = (): Parser<string> => {
-		return this.pattern(/^\S+@\S+\.\S+$/)
-			.map((v: any) => v as string)
-			.withMessage('Expected an email, ');
+	hasProp = (propertyName: string): Parser<any, I> => {
+		const wrapped = this.custom((v: any) => Object.prototype.hasOwnProperty.call(v, propertyName), `Property ${propertyName} does not exist`).map((v: any) => v as any);
+		return this.derive(wrapped, { check: 'hasProp', propertyName });
 	};
 
-	hasProp = (propertyName: string): Parser<any> => {
-		return this.custom((v: any) => v.hasOwnProperty(propertyName), `Property ${propertyName} does not exist`).map((v: any) => v as any);
+	creditCard = (): Parser<string, I> => {
+		return this.matchFormat('creditCard', passesLuhn, 'Invalid credit card number');
 	};
 
-	creditCard = (): Parser<string> => {
-		return this.pattern(/^\d{4}-\d{4}-\d{4}-\d{4}$/)
-			.withMessage('Invalid credit card number format')
-			.map((v: any) => v as string);
+	ipv4 = (): Parser<string, I> => {
+		return this.matchFormat('ipv4', IPV4, 'Invalid IPv4 address format');
 	};
 
-	ipv4 = (): Parser<string> => {
-		return this.pattern(/^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/)
-			.withMessage('Invalid IPv4 address format')
-			.map((v: any) => v as string);
+	ipv6 = (): Parser<string, I> => {
+		return this.matchFormat('ipv6', isIPv6, 'Invalid IPv6 address format');
 	};
 
-	ipv6 = (): Parser<string> => {
-		return this.pattern(/^([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$/)
-			.withMessage('Invalid IPv6 address format')
-			.map((v: any) => v as string);
+	domain = (): Parser<string, I> => {
+		return this.matchFormat('domain', /^(?=.{1,253}$)(?:[A-Za-z0-9](?:[-A-Za-z0-9]{0,61}[A-Za-z0-9])?\.)+(?:[A-Za-z]{2,63}|xn--[-A-Za-z0-9]{1,59})$/, 'Invalid domain format');
 	};
 
-	domain = (): Parser<string> => {
-		return this.pattern(/^(?:[-A-Za-z0-9]+\.)+[A-Za-z]{2,6}$/)
-			.withMessage('Invalid domain format')
-			.map((v: any) => v as string);
+	url = (options: { protocols?: string[] } = {}): Parser<string, I> => {
+		const protocols = (options.protocols || ['http', 'https']).map((protocol) => protocol.replace(/:$/, '').toLowerCase());
+		return this.matchFormat('url', (v) => isURL(v, protocols), options.protocols ? `Invalid URL, expected one of: ${protocols.join(', ')}` : 'Invalid URL', { protocols });
+	};
+
+	uuid = (version?: 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8): Parser<string, I> => {
+		const regex = version === undefined ? /^([0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}|0{8}-0{4}-0{4}-0{4}-0{12}|f{8}-f{4}-f{4}-f{4}-f{12})$/i : new RegExp(`^[0-9a-f]{8}-[0-9a-f]{4}-${version}[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$`, 'i');
+		return this.matchFormat('uuid', regex, version === undefined ? 'Invalid UUID' : `Invalid UUID v${version}`, { version });
+	};
+
+	ulid = (): Parser<string, I> => {
+		return this.matchFormat('ulid', /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i, 'Invalid ULID');
+	};
+
+	cuid2 = (): Parser<string, I> => {
+		return this.matchFormat('cuid2', /^[a-z][0-9a-z]{1,31}$/, 'Invalid CUID2');
+	};
+
+	semver = (): Parser<string, I> => {
+		return this.matchFormat('semver', /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/, 'Invalid semantic version');
+	};
+
+	isoDate = (): Parser<string, I> => {
+		return this.matchFormat('isoDate', isISODate, 'Invalid ISO date, expected YYYY-MM-DD');
+	};
+
+	isoTime = (): Parser<string, I> => {
+		return this.matchFormat('isoTime', ISO_TIME, 'Invalid ISO time, expected HH:MM or HH:MM:SS');
+	};
+
+	isoDateTime = (options: { offset?: boolean; local?: boolean } = {}): Parser<string, I> => {
+		const { offset = true, local = false } = options;
+		return this.matchFormat('isoDateTime', (v) => isISODateTime(v, offset, local), 'Invalid ISO date and time', { offset, local });
+	};
+
+	hexColor = (): Parser<string, I> => {
+		return this.matchFormat('hexColor', /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i, 'Invalid hex color');
+	};
+
+	base64 = (): Parser<string, I> => {
+		return this.matchFormat('base64', BASE64_STRING, 'Invalid base64 string');
+	};
+
+	base64url = (): Parser<string, I> => {
+		return this.matchFormat('base64url', isBase64URL, 'Invalid base64url string');
+	};
+
+	slug = (): Parser<string, I> => {
+		return this.matchFormat('slug', /^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Invalid slug');
+	};
+
+	e164 = (): Parser<string, I> => {
+		return this.matchFormat('e164', /^\+[1-9]\d{1,14}$/, 'Invalid E.164 phone number');
+	};
+
+	cidr = (version?: 4 | 6): Parser<string, I> => {
+		return this.matchFormat('cidr', (v) => isCIDR(v, version), version === undefined ? 'Invalid CIDR block' : `Invalid IPv${version} CIDR block`, { version });
+	};
+
+	mac = (): Parser<string, I> => {
+		return this.matchFormat('mac', /^[0-9a-f]{2}([:-])(?:[0-9a-f]{2}\1){4}[0-9a-f]{2}$/i, 'Invalid MAC address');
 	};
 }
 
-const string = (): Parser<string> =>
-	new Parser<string>((v: any) => {
-		assert(typeof v === 'string', 'Expected a string');
-		return v;
-	});
+class ObjectParser<S extends Shape, L extends boolean = false, E = {}> extends Parser<ObjectParserOutput<S, L, E>, ObjectParserInput<S, L, E>> {
+	get shape(): S {
+		return this.def.shape as S;
+	}
 
-const number = (): Parser<number> =>
-	new Parser<number>((v: any) => {
-		assert(typeof v === 'number', 'Expected a number');
-		return v;
-	});
+	extend = <N extends Shape>(shape: N): ObjectParser<ExtendShape<S, N>, L, E> => {
+		return rebuildObject(this, { ...this.shape, ...shape } as ExtendShape<S, N>);
+	};
 
-const boolean = (): Parser<boolean> =>
-	new Parser<boolean>((v: any) => {
-		assert(typeof v === 'boolean', 'Expected a boolean');
-		return v;
-	});
+	merge = <N extends Shape>(other: ObjectParser<N, any, any>): ObjectParser<ExtendShape<S, N>, L, E> => {
+		return this.extend(other.shape);
+	};
 
-const unknown = (): Parser<any> => new Parser<any>((v: any) => v);
+	pick = <K extends keyof S>(...keys: K[]): ObjectParser<Pick<S, K>, L, E> => {
+		const shape: Shape = {};
+		keys.forEach((key) => (shape[key as string] = this.shape[key]));
+		return rebuildObject(this, shape as Pick<S, K>);
+	};
 
-const object = <T>(schema: { [key: string]: Parser<any> }): Parser<T> =>
-	new Parser<T>((v: any) => {
-		assert(typeof v === 'object' && v !== null, 'Expected an object');
-		if (Object.keys(v).length == 0) {
-			return v;
-		} else {
-			const result: any = {};
-			for (const key in schema) {
-				if (v.hasOwnProperty(key)) {
-					result[key] = schema[key].check(v[key]);
-				} else {
-					throw new PRSEError(`Missing property: ${key}`);
-				}
-			}
-			return result;
-		}
-	});
+	omit = <K extends keyof S>(...keys: K[]): ObjectParser<Omit<S, K>, L, E> => {
+		const shape: Shape = { ...this.shape };
+		keys.forEach((key) => delete shape[key as string]);
+		return rebuildObject(this, shape as Omit<S, K>);
+	};
 
-const objectLoose = <T>(schema: { [key: string]: Parser<any> }): Parser<T> =>
-	new Parser<T>((v: any) => {
-		assert(typeof v === 'object' && v !== null, 'Expected an object');
-		const result: any = { ...v };
-		for (const key in v) {
-			if (schema.hasOwnProperty(key)) {
-				result[key] = schema[key].check(v[key]);
-			}
-		}
-		return result;
-	});
+	partial = (): ObjectParser<PartialShape<S>, L, E> => {
+		const shape: Shape = {};
+		Object.keys(this.shape).forEach((key) => (shape[key] = isOptional(this.shape[key]) ? this.shape[key] : this.shape[key].optional()));
+		return rebuildObject(this, shape as PartialShape<S>);
+	};
 
-const array = <T>(elementParser: Parser<T>): Parser<T[]> =>
-	new Parser<T[]>((v: any) => {
-		assert(Array.isArray(v), 'Expected an array');
-		return v.map(elementParser.check);
-	});
+	deepPartial = (): ObjectParser<DeepPartialShape<S>, L, E> => {
+		const shape: Shape = {};
+		Object.keys(this.shape).forEach((key) => {
+			const inner = unwrapOptional(this.shape[key]);
+			shape[key] = inner instanceof ObjectParser ? inner.deepPartial().optional() : isOptional(this.shape[key]) ? this.shape[key] : this.shape[key].optional();
+		});
+		return rebuildObject(this, shape as DeepPartialShape<S>);
+	};
 
-const record = <T>(vParser: Parser<T>): Parser<{ [key: string]: T }> =>
-	new Parser<{ [key: string]: T }>((v: any) => {
-		assert(typeof v === 'object' && v !== null && !Array.isArray(v), 'Expected an object');
-		const result: { [key: string]: T } = {};
-		for (const key in v) {
-			result[key] = vParser.check(v[key]);
-		}
-		return result;
+	strict = (): ObjectParser<S, L, {}> => {
+		return rebuildObject(this, this.shape, { unknownKeys: 'strict' });
+	};
+
+	strip = (): ObjectParser<S, L, {}> => {
+		return rebuildObject(this, this.shape, { unknownKeys: 'strip' });
+	};
+
+	passthrough = (): ObjectParser<S, L, ExtraKeys> => {
+		return rebuildObject(this, this.shape, { unknownKeys: 'passthrough' });
+	};
+
+	catchall = (parser: Parser<any, any>): ObjectParser<S, L, ExtraKeys> => {
+		return rebuildObject(this, this.shape, { unknownKeys: this.def.unknownKeys, catchall: parser });
+	};
+
+	keyof = (): Parser<keyof S & string> => {
+		return enums(Object.keys(this.shape) as (keyof S & string)[]);
+	};
+}
+
+// Keeps the unknown key policy (unless other keys are given) and the text from describe(), examples(), deprecated() and meta().
+const rebuildObject = <N extends Shape, L extends boolean, E>(parser: ObjectParser<any, L, any>, shape: N, keys: { unknownKeys?: UnknownKeys; catchall?: Parser<any, any> } = parser.def): ObjectParser<N, L, E> => {
+	const rebuilt = objectOf<N, L, E>(shape, parser.def.type === 'objectLoose', keys.unknownKeys || 'strip', keys.catchall);
+	(['description', 'examples', 'deprecated', 'meta'] as const).filter((key) => parser.def[key] !== undefined).forEach((key) => ((rebuilt.def as any)[key] = parser.def[key]));
+	return rebuilt;
+};
+
+const unwrapOptional = (parser: Parser<any, any>): Parser<any, any> => {
+	const last = parser.def.checks[parser.def.checks.length - 1];
+	return last !== undefined && last.check === 'optional' ? last.parser : parser;
+};
+
+const requiredFields = <S extends Shape, L extends boolean, E>(parser: ObjectParser<S, L, E>): ObjectParser<RequiredShape<S>, L, E> => {
+	const shape: Shape = {};
+	Object.keys(parser.shape).forEach((key) => {
+		const inner = unwrapOptional(parser.shape[key]);
+		shape[key] = isOptional(inner) ? inner.required() : inner;
 	});
+	return rebuildObject(parser, shape as RequiredShape<S>);
+};
+
+const define = <T, I = T>(def: ParserDef, parseFn: (v: any, options: ParseOptions) => T): Parser<T, I> => new Parser<T, I>(parseFn, '', def);
+
+const string = (): Parser<string> =>
+	native(
+		define<string>({ type: 'string', checks: [] }, (v: any) => {
+			assert(typeof v === 'string', 'Expected a string', { check: 'string', code: 'invalid_type', expected: 'string', received: typeOf(v) });
+			return v;
+		})
+	);
 
-const set = <T>(elementParser: Parser<T>): Parser<Set<T>> =>
-	new Parser<Set<T>>((v: any) => {
-		assert(v instanceof Set, 'Expected a Set');
-		return new Set(Array.from(v).map(elementParser.check));
+const number = (): Parser<number> =>
+	native(
+		define<number>({ type: 'number', checks: [] }, (v: any) => {
+			assert(typeof v === 'number', 'Expected a number', { check: 'number', code: 'invalid_type', expected: 'number', received: typeOf(v) });
+			return v;
+		})
+	);
+
+const boolean = (): Parser<boolean> =>
+	native(
+		define<boolean>({ type: 'boolean', checks: [] }, (v: any) => {
+			assert(typeof v === 'boolean', 'Expected a boolean', { check: 'boolean', code: 'invalid_type', expected: 'boolean', received: typeOf(v) });
+			return v;
+		})
+	);
+
+const unknown = (): Parser<any> => native(new Parser<any>((v: any) => v));
+
+const defineObject = <S extends Shape, L extends boolean, E>(def: ParserDef, parseFn: (v: any, options: ParseOptions) => ObjectParserOutput<S, L, E>): ObjectParser<S, L, E> => new ObjectParser<S, L, E>(parseFn, '', def);
+
+const objectOf = <S extends Shape, L extends boolean, E>(schema: S, loose: boolean, unknownKeys: UnknownKeys, catchall?: Parser<any, any>): ObjectParser<S, L, E> =>
+	native(
+		defineObject<S, L, E>({ type: loose ? 'objectLoose' : 'object', checks: [], shape: schema, unknownKeys, catchall }, (v: any, options) => {
+			assert(typeof v === 'object' && v !== null, 'Expected an object', { check: loose ? 'objectLoose' : 'object', code: 'invalid_type', expected: 'object', received: typeOf(v) });
+			const keys = loose ? Object.keys(schema).filter((key) => Object.prototype.hasOwnProperty.call(v, key)) : Object.keys(schema);
+			const extraKeys = Object.keys(v).filter((key) => !Object.prototype.hasOwnProperty.call(schema, key));
+			const unexpected: Invalid[] = [];
+			if (unknownKeys === 'strict' && catchall === undefined && extraKeys.length > 0) {
+				const e = new PRSEError(`Unexpected ${extraKeys.length === 1 ? 'property' : 'properties'}: ${extraKeys.join(', ')}`, { check: 'strict', code: 'unexpected_property', received: extraKeys });
+				if (options.abortEarly !== false) {
+					throw e;
+				}
+				unexpected.push(new Invalid(e.issues));
+			}
+			const values = keys.map((key) =>
+				checkAt(key, options, () => {
+					if (Object.prototype.hasOwnProperty.call(v, key)) {
+						return schema[key].check(v[key], options);
+					}
+					return attempt(
+						() => schema[key].check(undefined, options),
+						(e) => {
+							if (e instanceof PRSEError) {
+								throw new PRSEError(`Missing property: ${key}`, { check: 'object', code: 'missing_property', expected: key });
+							}
+							throw e;
+						}
+					);
+				})
+			);
+			const extraValues = extraKeys.map((key) => (catchall ? checkAt(key, options, () => catchall.check(v[key], options)) : v[key]));
+			return collect([...values, ...extraValues, ...unexpected], (results) => {
+				const result: any = {};
+				keys.forEach((key, i) => {
+					if (results[i] !== undefined || Object.prototype.hasOwnProperty.call(v, key)) {
+						setProperty(result, key, results[i]);
+					}
+				});
+				if (catchall || unknownKeys === 'passthrough') {
+					extraKeys.forEach((key, i) => setProperty(result, key, results[keys.length + i]));
+				}
+				return result;
+			});
+		})
+	);
+
+const object = <S extends Shape>(schema: S): ObjectParser<S> => objectOf(schema, false, 'strip');
+
+const objectLoose = <S extends Shape>(schema: S): ObjectParser<S, true, ExtraKeys> => objectOf(schema, true, 'passthrough');
+
+const array = <T, I>(elementParser: Parser<T, I>): Parser<T[], I[]> =>
+	native(
+		define<T[], I[]>({ type: 'array', checks: [], element: elementParser }, (v: any, options) => {
+			assert(Array.isArray(v), 'Expected an array', { check: 'array', code: 'invalid_type', expected: 'array', received: typeOf(v) });
+			const values = v.map((item: any, i: number) => checkAt(i, options, () => elementParser.check(item, options)));
+			return collect(values, (results) => results);
+		})
+	);
+
+const record = <T, I>(vParser: Parser<T, I>): Parser<{ [key: string]: T }, { [key: string]: I }> =>
+	native(
+		define<{ [key: string]: T }, { [key: string]: I }>({ type: 'record', checks: [], element: vParser }, (v: any, options) => {
+			assert(typeof v === 'object' && v !== null && !Array.isArray(v), 'Expected an object', { check: 'record', code: 'invalid_type', expected: 'object', received: typeOf(v) });
+			const keys = Object.keys(v);
+			const values = keys.map((key) => checkAt(key, options, () => vParser.check(v[key], options)));
+			return collect(values, (results) => {
+				const result: { [key: string]: T } = {};
+				keys.forEach((key, i) => setProperty(result, key, results[i]));
+				return result;
+			});
+		})
+	);
+
+const set = <T, I>(elementParser: Parser<T, I>): Parser<Set<T>, Set<I>> =>
+	define<Set<T>, Set<I>>({ type: 'set', checks: [], element: elementParser }, (v: any, options) => {
+		assert(v instanceof Set, 'Expected a Set', { check: 'set', code: 'invalid_type', expected: 'Set', received: typeOf(v) });
+		const values = Array.from(v).map((item, i) => checkAt(i, options, () => elementParser.check(item, options)));
+		return collect(values, (results) => new Set(results));
 	});
 
-const map = <K, V>(keyParser: Parser<K>, vParser: Parser<V>): Parser<Map<K, V>> =>
-	new Parser<Map<K, V>>((v: any) => {
-		assert(v instanceof Map, 'Expected a Map');
-		const result = new Map();
+const map = <K, V, KI, VI>(keyParser: Parser<K, KI>, vParser: Parser<V, VI>): Parser<Map<K, V>, Map<KI, VI>> =>
+	define<Map<K, V>, Map<KI, VI>>({ type: 'map', checks: [], key: keyParser, element: vParser }, (v: any, options) => {
+		assert(v instanceof Map, 'Expected a Map', { check: 'map', code: 'invalid_type', expected: 'Map', received: typeOf(v) });
+		const values: any[] = [];
+		let i = 0;
 		v.forEach((v: any, k: any) => {
-			result.set(keyParser.check(k), vParser.check(v));
+			const key = typeof k === 'string' || typeof k === 'number' ? k : i;
+			values.push(
+				checkAt(key, options, () => keyParser.check(k, options)),
+				checkAt(key, options, () => vParser.check(v, options))
+			);
+			i++;
+		});
+		return collect(values, (results) => {
+			const result = new Map();
+			for (let i = 0; i < results.length; i += 2) {
+				result.set(results[i], results[i + 1]);
+			}
+			return result;
 		});
-		return result;
 	});
 
-const tuple = <T extends any[]>(parsers: {
-	[K in keyof T]: Parser<T[K]>;
-}): Parser<T> =>
-	new Parser<T>((v: any) => {
-		assert(Array.isArray(v), 'Expected an array');
-		assert(v.length === parsers.length, 'Array length does not match tuple length');
-		return parsers.map((parser, i) => parser.check(v[i])) as T;
+const tuple = <P extends [Parser<any, any>, ...Parser<any, any>[]] | []>(parsers: P): Parser<{ [K in keyof P]: Infer<P[K]> }, { [K in keyof P]: InferInput<P[K]> }> =>
+	native(
+		define<{ [K in keyof P]: Infer<P[K]> }, { [K in keyof P]: InferInput<P[K]> }>({ type: 'tuple', checks: [], items: parsers }, (v: any, options) => {
+			assert(Array.isArray(v), 'Expected an array', { check: 'tuple', code: 'invalid_type', expected: 'array', received: typeOf(v) });
+			assert(v.length === parsers.length, 'Array length does not match tuple length', { check: 'tuple', code: v.length < parsers.length ? 'too_small' : 'too_big', expected: parsers.length, received: v.length });
+			const values = parsers.map((parser, i) => checkAt(i, options, () => parser.check(v[i], options)));
+			return collect(values, (results) => results);
+		})
+	);
+
+const enums = <U extends string | number | symbol, A extends readonly U[]>(allowed: A): Parser<A[number]> =>
+	native(
+		define<A[number]>({ type: 'enums', checks: [], values: allowed }, (v: any) => {
+			assert(allowed.indexOf(v) !== -1, `Expected one of: ${allowed.join(', ')}`, { check: 'enums', code: 'not_in_enum', expected: allowed, received: v });
+			return v as A[number];
+		})
+	);
+
+const discriminatedUnion = <B extends { [tag: string]: Parser<any, any> }>(key: string, branches: B): Parser<Infer<B[keyof B]>, InferInput<B[keyof B]>> =>
+	native(
+		define<Infer<B[keyof B]>, InferInput<B[keyof B]>>({ type: 'discriminatedUnion', checks: [], discriminator: key, options: Object.values(branches), branches }, (v: any, options) => {
+			assert(typeof v === 'object' && v !== null && !Array.isArray(v), 'Expected an object', { check: 'discriminatedUnion', code: 'invalid_type', expected: 'object', received: typeOf(v) });
+			const tag = v[key];
+			if ((typeof tag !== 'string' && typeof tag !== 'number') || !Object.prototype.hasOwnProperty.call(branches, tag)) {
+				const tags = Object.keys(branches);
+				const message = tag === undefined ? `Missing ${key}, expected ${tags.join('|')}` : `Unknown ${key} '${String(tag)}', expected ${tags.join('|')}`;
+				const details: PRSEIssueDetails = { check: 'discriminatedUnion', code: 'not_in_enum', expected: tags, received: tag };
+				throw new PRSEError(message, details, [{ ...details, path: [key], message }]);
+			}
+			return branches[tag].check(v, options);
+		})
+	);
+
+const lazy = <T, I = T>(getParser: () => Parser<T, I>): Parser<T, I> => {
+	let parser: Parser<T, I> | undefined;
+	const getter = () => {
+		if (parser === undefined) {
+			parser = getParser();
+		}
+		return parser;
+	};
+	return define<T, I>({ type: 'lazy', checks: [], getter }, (v: any, options) => {
+		if (typeof v !== 'object' || v === null) {
+			return getter().check(v, options);
+		}
+		const ancestors = lazyAncestors.get(options) || new Set<any>();
+		lazyAncestors.set(options, ancestors);
+		assert(!ancestors.has(v), 'Value contains a reference to itself', { check: 'lazy', code: 'invalid_value', received: typeOf(v) });
+		assert(ancestors.size < maxLazyDepth, `Value is nested more than ${maxLazyDepth} levels deep`, { check: 'lazy', code: 'too_big', expected: maxLazyDepth, received: ancestors.size + 1 });
+		// Nested values are checked before check() returns, so v leaves the set when it does (async checks that are still running don't go deeper).
+		ancestors.add(v);
+		try {
+			return getter().check(v, options);
+		} finally {
+			ancestors.delete(v);
+		}
 	});
+};
 
-const enums = <T extends string | number | symbol>(allowed: T[]): Parser<T> =>
-	new Parser<T>((v: any) => {
-		assert(allowed.indexOf(v) !== -1, `Expected one of: ${allowed.join(', ')}`);
-		return v as T;
-	});
+const preprocess = <T, I>(preprocessFn: (v: unknown, ctx: RefinementContext) => unknown, parser: Parser<T, I>): Parser<T, unknown> =>
+	new Parser<T, unknown>(
+		(v: any, options) =>
+			parser.check(
+				withContext('preprocess', v, (ctx) => preprocessFn(v, ctx)),
+				options
+			),
+		'',
+		{ ...parser.def, checks: [{ check: 'preprocess', preprocessFn }, ...parser.def.checks] }
+	);
 
 const fail = (): never => {
-	throw new PRSEError('Validation failed');
+	throw new PRSEError('Validation failed', { check: 'fail', code: 'custom' });
 };
 
-const date = (): Parser<Date> =>
-	new Parser<Date>((v: any) => {
+const date = (options: { iso?: boolean } = {}): Parser<Date, Date | string | number> =>
+	define<Date, Date | string | number>({ type: 'date', checks: [], iso: options.iso }, (v: any) => {
+		if (options.iso) {
+			assert(v instanceof Date || (typeof v === 'string' && (isISODate(v) || isISODateTime(v, true, true))), 'Expected a date or an ISO 8601 string', { check: 'date', code: 'invalid_date', expected: 'ISO 8601', received: v });
+		}
 		const parsedDate = new Date(v);
-		assert(!isNaN(parsedDate.getTime()), 'Expected a valid date');
+		assert(!isNaN(parsedDate.getTime()), 'Expected a valid date', { check: 'date', code: 'invalid_date', received: v });
 		return parsedDate;
 	});
 
@@ -808,69 +2024,1809 @@ const instance = <
 >(
 	className: T
 ): Parser<InstanceType<T>> =>
-	new Parser<InstanceType<T>>((v: any) => {
-		assert(v instanceof className, `Expected an instance of ${className.name}`);
+	define<InstanceType<T>>({ type: 'instance', checks: [], className: className.name }, (v: any) => {
+		assert(v instanceof className, `Expected an instance of ${className.name}`, { check: 'instance', code: 'invalid_type', expected: className.name, received: typeOf(v) });
 		return v as InstanceType<T>;
 	});
 
 const func = (): Parser<Function> =>
-	new Parser<Function>((v: any) => {
-		assert(typeof v === 'function', 'Expected a function');
+	define<Function>({ type: 'func', checks: [] }, (v: any) => {
+		assert(typeof v === 'function', 'Expected a function', { check: 'func', code: 'invalid_type', expected: 'function', received: typeOf(v) });
 		return v;
 	});
 
-const uint8Array = (): Parser<Uint8Array> =>
-	new Parser<Uint8Array>((v: any) => {
-		assert(v instanceof Uint8Array, 'Expected an Uint8Array');
-		return v;
-	});
+const binaryTypes = ['Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array', 'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array', 'ArrayBuffer', 'DataView', 'Blob', 'File'];
 
-const symbol = (): Parser<symbol> =>
-	new Parser<symbol>((v: any) => {
-		assert(typeof v === 'symbol', 'Expected a Symbol');
-		return v;
-	});
+const binaryTypeOf = (name: string): string => `${name[0].toLowerCase()}${name.slice(1)}`;
 
-const regexp = (): Parser<RegExp> =>
-	new Parser<RegExp>((v: any) => {
-		assert(v instanceof RegExp, 'Expected a RegExp');
-		return v;
-	});
+const binary =
+	<T>(name: string) =>
+	(): Parser<T> => {
+		const type = binaryTypeOf(name);
+		return define<T>({ type, checks: [] }, (v: any) => {
+			const constructor = (globalThis as any)[name];
+			assert(constructor !== undefined && v instanceof constructor, `Expected ${/^[AEIOU]/.test(name) ? 'an' : 'a'} ${name}`, { check: type, code: 'invalid_type', expected: name, received: typeOf(v) });
+			return v;
+		});
+	};
 
-const int8Array = (): Parser<Int8Array> =>
-	new Parser<Int8Array>((v: any) => {
-		assert(v instanceof Int8Array, 'Expected an Int8Array');
-		return v;
-	});
+const int8Array = binary<Int8Array>('Int8Array');
 
-const bigInt = (): Parser<BigInt> =>
-	new Parser<BigInt>((v: any) => {
-		assert(typeof v === 'bigint', 'Expected a BigInt');
-		return v;
-	});
+const uint8Array = binary<Uint8Array>('Uint8Array');
 
-const p = {
-	string,
-	number,
-	boolean,
-	unknown,
-	object,
-	objectLoose,
+const uint8ClampedArray = binary<Uint8ClampedArray>('Uint8ClampedArray');
+
+const int16Array = binary<Int16Array>('Int16Array');
+
+const uint16Array = binary<Uint16Array>('Uint16Array');
+
+const int32Array = binary<Int32Array>('Int32Array');
+
+const uint32Array = binary<Uint32Array>('Uint32Array');
+
+const float32Array = binary<Float32Array>('Float32Array');
+
+const float64Array = binary<Float64Array>('Float64Array');
+
+const bigInt64Array = binary<BigInt64Array>('BigInt64Array');
+
+const bigUint64Array = binary<BigUint64Array>('BigUint64Array');
+
+const arrayBuffer = binary<ArrayBuffer>('ArrayBuffer');
+
+const dataView = binary<DataView>('DataView');
+
+const blob = binary<Blob>('Blob');
+
+const file = binary<File>('File');
+
+const decodeBase64 = (options: { url?: boolean } = {}): Parser<Uint8Array, string> => {
+	const check = options.url ? 'base64url' : 'base64';
+	return define<Uint8Array, string>({ type: 'uint8Array', checks: [{ check: 'decode', encoding: check }] }, (v: any) => {
+		assert(typeof v === 'string', `Invalid ${check} string`, { check, code: 'invalid_type', expected: 'string', received: typeOf(v) });
+		assert(options.url ? isBase64URL(v) : BASE64_STRING.test(v), `Invalid ${check} string`, { check, code: 'pattern_mismatch', expected: check, received: v });
+		return decodeBase64Bytes(v);
+	});
+};
+
+const decodeHex = (): Parser<Uint8Array, string> =>
+	define<Uint8Array, string>({ type: 'uint8Array', checks: [{ check: 'decode', encoding: 'hex' }] }, (v: any) => {
+		assert(typeof v === 'string', 'Invalid hex string', { check: 'hex', code: 'invalid_type', expected: 'string', received: typeOf(v) });
+		assert(HEX_STRING.test(v), 'Invalid hex string', { check: 'hex', code: 'pattern_mismatch', expected: HEX_STRING.source, received: v });
+		return decodeHexBytes(v);
+	});
+
+const decode = {
+	base64: decodeBase64,
+	hex: decodeHex
+};
+
+const symbol = (): Parser<symbol> =>
+	define<symbol>({ type: 'symbol', checks: [] }, (v: any) => {
+		assert(typeof v === 'symbol', 'Expected a Symbol', { check: 'symbol', code: 'invalid_type', expected: 'symbol', received: typeOf(v) });
+		return v;
+	});
+
+const regexp = (): Parser<RegExp> =>
+	define<RegExp>({ type: 'regexp', checks: [] }, (v: any) => {
+		assert(v instanceof RegExp, 'Expected a RegExp', { check: 'regexp', code: 'invalid_type', expected: 'RegExp', received: typeOf(v) });
+		return v;
+	});
+
+const bigInt = (): Parser<BigInt> =>
+	define<BigInt>({ type: 'bigInt', checks: [] }, (v: any) => {
+		assert(typeof v === 'bigint', 'Expected a BigInt', { check: 'bigInt', code: 'invalid_type', expected: 'bigint', received: typeOf(v) });
+		return v;
+	});
+
+const coerceNumber = (): Parser<number, number | string> =>
+	define<number, number | string>({ type: 'number', checks: [{ check: 'coerce' }] }, (v: any) => {
+		if (typeof v === 'string') {
+			const n = Number(v);
+			assert(/^\s*[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i.test(v) && Number.isFinite(n), `Cannot convert "${v}" to a number`, { check: 'number', code: 'invalid_type', expected: 'number', received: v });
+			return n;
+		}
+		assert(typeof v === 'number', 'Expected a number', { check: 'number', code: 'invalid_type', expected: 'number', received: typeOf(v) });
+		return v;
+	});
+
+const coerceBoolean = (): Parser<boolean, boolean | string | number> =>
+	define<boolean, boolean | string | number>({ type: 'boolean', checks: [{ check: 'coerce' }] }, (v: any) => {
+		const text = typeof v === 'string' ? v.trim().toLowerCase() : v;
+		if (text === true || text === 'true' || text === '1' || text === 'yes' || text === 1) {
+			return true;
+		} else if (text === false || text === 'false' || text === '0' || text === 'no' || text === 0) {
+			return false;
+		}
+		throw new PRSEError(typeof v === 'string' ? `Cannot convert "${v}" to a boolean` : 'Expected a boolean', { check: 'boolean', code: 'invalid_type', expected: 'boolean', received: typeof v === 'string' ? v : typeOf(v) });
+	});
+
+const coerceBigInt = (): Parser<BigInt, BigInt | string | number> =>
+	define<BigInt, BigInt | string | number>({ type: 'bigInt', checks: [{ check: 'coerce' }] }, (v: any) => {
+		if (typeof v === 'string') {
+			assert(/^\s*[+-]?\d+\s*$/.test(v), `Cannot convert "${v}" to a BigInt`, { check: 'bigInt', code: 'invalid_type', expected: 'bigint', received: v });
+			return BigInt(v.trim());
+		} else if (typeof v === 'number') {
+			assert(Number.isInteger(v), `Cannot convert ${v} to a BigInt`, { check: 'bigInt', code: 'invalid_type', expected: 'bigint', received: v });
+			return BigInt(v);
+		}
+		assert(typeof v === 'bigint', 'Expected a BigInt', { check: 'bigInt', code: 'invalid_type', expected: 'bigint', received: typeOf(v) });
+		return v;
+	});
+
+const coerceDate = (): Parser<Date, Date | string | number> =>
+	define<Date, Date | string | number>({ type: 'date', checks: [{ check: 'coerce' }] }, (v: any) => {
+		assert(v instanceof Date || typeof v === 'string' || typeof v === 'number', 'Expected a date, string or number', { check: 'date', code: 'invalid_type', expected: 'date', received: typeOf(v) });
+		const parsedDate = typeof v === 'string' && /^\s*-?\d+\s*$/.test(v) ? new Date(Number(v)) : new Date(v);
+		assert(!isNaN(parsedDate.getTime()), typeof v === 'string' ? `Cannot convert "${v}" to a date` : 'Expected a valid date', { check: 'date', code: 'invalid_date', received: v });
+		return parsedDate;
+	});
+
+const coerceArray = <T, I>(elementParser: Parser<T, I>, separator: string | RegExp = ','): Parser<T[], I[] | string> =>
+	define<T[], I[] | string>({ type: 'array', checks: [{ check: 'coerce', separator }], element: elementParser }, (v: any, options) => {
+		const items = typeof v === 'string' ? (v.trim() === '' ? [] : v.split(separator).map((item) => item.trim())) : v;
+		assert(Array.isArray(items), 'Expected an array or a string', { check: 'array', code: 'invalid_type', expected: 'array', received: typeOf(v) });
+		const values = items.map((item: any, i: number) => checkAt(i, options, () => elementParser.check(item, options)));
+		return collect(values, (results) => results);
+	});
+
+const coerce = {
+	number: coerceNumber,
+	boolean: coerceBoolean,
+	bigInt: coerceBigInt,
+	date: coerceDate,
+	array: coerceArray
+};
+
+type JSONSchema = { [key: string]: any };
+
+interface JSONSchemaRefs {
+	names: Map<() => Parser<any, any>, string>;
+	defs: JSONSchema;
+	path: string;
+	named: Map<Parser<any, any>, string>;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isOptional = (parser: Parser<any, any>): boolean => {
+	const last = parser.def.checks.filter(({ check }) => ['optional', 'default', 'prohibited', 'required'].includes(check)).pop();
+	return last ? last.check !== 'required' : parser.def.type === 'unknown';
+};
+
+const addPattern = (schema: JSONSchema, pattern: string): JSONSchema => {
+	if (schema.pattern === undefined) {
+		return { ...schema, pattern };
+	}
+	return { ...schema, allOf: [...(schema.allOf || []), { pattern }] };
+};
+
+const applyCheck = (schema: JSONSchema, c: ParserCheck, refs: JSONSchemaRefs): JSONSchema => {
+	const kind = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+	const numeric = kind === 'number' || kind === 'integer';
+	const [minKey, maxKey] = kind === 'string' ? ['minLength', 'maxLength'] : kind === 'array' ? ['minItems', 'maxItems'] : kind === 'object' ? ['minProperties', 'maxProperties'] : ['', ''];
+	const sized = minKey !== '';
+	if (c.check === 'range') {
+		return numeric ? { ...schema, minimum: c.min, maximum: c.max } : sized ? { ...schema, [minKey]: c.min, [maxKey]: c.max } : schema;
+	} else if (c.check === 'moreThan') {
+		return numeric ? { ...schema, exclusiveMinimum: c.min } : sized ? { ...schema, [minKey]: c.min + 1 } : schema;
+	} else if (c.check === 'lessThan') {
+		return numeric ? { ...schema, exclusiveMaximum: c.max } : sized ? { ...schema, [maxKey]: c.max - 1 } : schema;
+	} else if (c.check === 'moreThanOrEqualTo') {
+		return numeric ? { ...schema, minimum: c.min } : sized ? { ...schema, [minKey]: c.min } : schema;
+	} else if (c.check === 'lessThanOrEqualTo') {
+		return numeric ? { ...schema, maximum: c.max } : sized ? { ...schema, [maxKey]: c.max } : schema;
+	} else if (c.check === 'minLength' && sized) {
+		return { ...schema, [minKey]: c.min };
+	} else if (c.check === 'maxLength' && sized) {
+		return { ...schema, [maxKey]: c.max };
+	} else if (c.check === 'length' && sized) {
+		return { ...schema, [minKey]: c.length, [maxKey]: c.length };
+	} else if (c.check === 'notEmpty' && sized) {
+		return { ...schema, [minKey]: 1 };
+	} else if (c.check === 'empty' && sized) {
+		return { ...schema, [maxKey]: 0 };
+	} else if (c.check === 'integer' && kind === 'number') {
+		return { ...schema, type: Array.isArray(schema.type) ? ['integer', ...schema.type.slice(1)] : 'integer' };
+	} else if (c.check === 'pattern' && kind === 'string') {
+		return addPattern(schema, c.regex.source);
+	} else if (c.check === 'first' && kind === 'string') {
+		return addPattern(schema, `^${escapeRegExp(c.value)}`);
+	} else if (c.check === 'last' && kind === 'string') {
+		return addPattern(schema, `${escapeRegExp(c.value)}$`);
+	} else if (c.check === 'includes' && kind === 'string') {
+		return addPattern(schema, escapeRegExp(c.value));
+	} else if (c.check === 'email' || c.check === 'ipv4' || c.check === 'ipv6' || c.check === 'uuid') {
+		return { ...schema, format: c.check };
+	} else if (c.check === 'domain') {
+		return { ...schema, format: 'hostname' };
+	} else if (c.check === 'url') {
+		return { ...schema, format: 'uri' };
+	} else if (c.check === 'isoDate') {
+		return { ...schema, format: 'date' };
+	} else if (c.check === 'isoTime') {
+		return { ...schema, format: 'time' };
+	} else if (c.check === 'isoDateTime') {
+		return { ...schema, format: 'date-time' };
+	} else if (c.check === 'oneOf' && kind !== 'array' && kind !== 'object') {
+		return { ...schema, enum: [...c.values] };
+	} else if (c.check === 'equalTo' || c.check === 'strictlyEqualTo') {
+		return { ...schema, const: c.value };
+	} else if (c.check === 'notEqualTo') {
+		return { ...schema, not: { const: c.value } };
+	} else if (c.check === 'not') {
+		return { ...schema, not: jsonSchemaOf(c.parser, refs) };
+	} else if (c.check === 'every' && kind === 'array') {
+		return { ...schema, items: schema.items ? { allOf: [schema.items, jsonSchemaOf(c.parser, refs)] } : jsonSchemaOf(c.parser, refs) };
+	} else if (c.check === 'some' && kind === 'array') {
+		return { ...schema, contains: jsonSchemaOf(c.parser, refs) };
+	} else if (c.check === 'hasProp' && kind === 'object') {
+		return { ...schema, required: [...(schema.required || []), c.propertyName] };
+	} else if (c.check === 'decode') {
+		return { ...schema, type: 'string', contentEncoding: c.encoding === 'hex' ? 'base16' : c.encoding };
+	} else if (c.check === 'default') {
+		return { ...schema, default: c.value };
+	} else if (c.check === 'prohibited') {
+		return { type: 'null' };
+	} else if (c.check === 'optional' || c.check === 'nullable') {
+		if (typeof schema.type === 'string') {
+			return { ...schema, type: [schema.type, 'null'] };
+		} else if (schema.enum) {
+			return { ...schema, enum: [...schema.enum, null] };
+		} else if (Object.keys(schema).length > 0) {
+			return { anyOf: [schema, { type: 'null' }] };
+		}
+	}
+	return schema;
+};
+
+const jsonSchemaOf = (parser: Parser<any, any>, refs: JSONSchemaRefs, root = false): JSONSchema => {
+	const { def } = parser;
+	let schema: JSONSchema = {};
+	if (!root && refs.named.has(parser)) {
+		return { $ref: `${refs.path}${refs.named.get(parser)}` };
+	} else if (def.type === 'string' || def.type === 'number' || def.type === 'boolean') {
+		schema = { type: def.type };
+	} else if ((def.type === 'object' || def.type === 'objectLoose') && def.shape) {
+		const shape = def.shape;
+		const properties: JSONSchema = {};
+		Object.keys(shape).forEach((key) => (properties[key] = jsonSchemaOf(shape[key], refs)));
+		const required = def.type === 'object' ? Object.keys(shape).filter((key) => !isOptional(shape[key])) : [];
+		schema = required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+		if (def.catchall) {
+			schema.additionalProperties = jsonSchemaOf(def.catchall, refs);
+		} else if (def.unknownKeys === 'strict') {
+			schema.additionalProperties = false;
+		}
+	} else if (def.type === 'array' && def.element) {
+		schema = { type: 'array', items: jsonSchemaOf(def.element, refs) };
+	} else if (def.type === 'record' && def.element) {
+		schema = { type: 'object', additionalProperties: jsonSchemaOf(def.element, refs) };
+	} else if (def.type === 'tuple' && def.items) {
+		schema = { type: 'array', prefixItems: def.items.map((item) => jsonSchemaOf(item, refs)), items: false, minItems: def.items.length };
+	} else if (def.type === 'enums' && def.values) {
+		schema = { enum: [...def.values] };
+	} else if (def.type === 'date') {
+		schema = { type: 'string', format: 'date-time' };
+	} else if ((def.type === 'or' || def.type === 'union') && def.options) {
+		schema = { anyOf: def.options.map((option) => jsonSchemaOf(option, refs)) };
+	} else if (def.type === 'and' && def.options) {
+		schema = { allOf: def.options.map((option) => jsonSchemaOf(option, refs)) };
+	} else if (def.type === 'discriminatedUnion' && def.options) {
+		schema = { oneOf: def.options.map((option) => jsonSchemaOf(option, refs)) };
+	} else if (def.type === 'oneOf' && def.options) {
+		schema = { oneOf: def.options.map((option) => jsonSchemaOf(option, refs)) };
+	} else if (def.type === 'null') {
+		schema = { type: 'null' };
+	} else if (def.type === 'never') {
+		schema = { not: {} };
+	} else if (def.type === 'lazy' && def.getter && (root || refs.named.has(def.getter()))) {
+		schema = root ? jsonSchemaOf(def.getter(), refs) : { $ref: `${refs.path}${refs.named.get(def.getter())}` };
+	} else if (def.type === 'lazy' && def.getter) {
+		if (!refs.names.has(def.getter)) {
+			const name = `lazy${refs.names.size + 1}`;
+			refs.names.set(def.getter, name);
+			refs.defs[name] = jsonSchemaOf(def.getter(), refs);
+		}
+		schema = { $ref: `${refs.path}${refs.names.get(def.getter)}` };
+	}
+	schema = def.checks.reduce((result, c) => applyCheck(result, c, refs), schema);
+	if (def.description !== undefined) {
+		schema.description = def.description;
+	}
+	if (def.examples !== undefined) {
+		schema.examples = def.examples;
+	}
+	if (def.deprecated !== undefined) {
+		schema.deprecated = true;
+	}
+	return schema;
+};
+
+const toJSONSchema = (parser: Parser<any, any>): JSONSchema => {
+	const refs: JSONSchemaRefs = { names: new Map(), defs: {}, path: '#/$defs/', named: new Map() };
+	const schema = { $schema: 'https://json-schema.org/draft/2020-12/schema', ...jsonSchemaOf(parser, refs) };
+	return refs.names.size > 0 ? { ...schema, $defs: refs.defs } : schema;
+};
+
+const toOpenAPI = (parsers: { [name: string]: Parser<any, any> }): JSONSchema => {
+	const names = Object.keys(parsers);
+	const refs: JSONSchemaRefs = { names: new Map(), defs: {}, path: '#/components/schemas/', named: new Map(names.map((name) => [parsers[name], name])) };
+	const schemas: JSONSchema = {};
+	names.forEach((name) => (schemas[name] = jsonSchemaOf(parsers[name], refs, true)));
+	return { openapi: '3.1.0', components: { schemas: { ...schemas, ...refs.defs } } };
+};
+
+interface TypeScriptRefs {
+	named: Map<Parser<any, any>, string>;
+	visiting: Set<Parser<any, any>>;
+	readonly: boolean;
+}
+
+const typeLiteral = (value: any): string => (typeof value === 'bigint' ? `${value}n` : value === undefined ? 'undefined' : JSON.stringify(value));
+
+const propertyKey = (key: string): string => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+
+const grouped = (type: string): string => {
+	let depth = 0;
+	if (type.startsWith('readonly ')) {
+		return `(${type})`;
+	}
+	const topLevel = type.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+	for (const char of topLevel) {
+		depth += '{[(<'.includes(char) ? 1 : '}])>'.includes(char) ? -1 : 0;
+		if (depth === 0 && (char === '|' || char === '&')) {
+			return `(${type})`;
+		}
+	}
+	return type;
+};
+
+const unionOf = (types: string[]): string => Array.from(new Set(types)).join(' | ') || 'never';
+
+const docComment = (def: ParserDef, indent = ''): string => {
+	const lines = [...(def.description !== undefined ? def.description.split('\n') : []), ...(def.examples || []).map((example) => `@example ${JSON.stringify(example)}`), ...(def.deprecated !== undefined ? [`@deprecated ${def.deprecated}`.trim()] : [])];
+	return lines.length > 0 ? `${indent}/**\n${lines.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n` : '';
+};
+
+const outputOptional = (parser: Parser<any, any>): boolean => {
+	const last = parser.def.checks.filter(({ check }) => ['optional', 'default', 'prohibited', 'required'].includes(check)).pop();
+	return last ? last.check === 'optional' || last.check === 'prohibited' : parser.def.type === 'unknown';
+};
+
+const objectTypeOf = (def: ParserDef, shape: Shape, refs: TypeScriptRefs): string => {
+	const modifier = refs.readonly ? 'readonly ' : '';
+	const members = Object.keys(shape).map((key) => {
+		const optional = def.type === 'objectLoose' || outputOptional(shape[key]);
+		return `${docComment(shape[key].def, '\t')}\t${modifier}${propertyKey(key)}${optional ? '?' : ''}: ${typeScriptOf(shape[key], refs).replace(/\n/g, '\n\t')};`;
+	});
+	const type = members.length > 0 ? `{\n${members.join('\n')}\n}` : '{}';
+	if (def.catchall) {
+		return `${type} & { ${modifier}[key: string]: ${typeScriptOf(def.catchall, refs)} }`;
+	}
+	return def.unknownKeys === 'passthrough' ? `${type} & { ${modifier}[key: string]: unknown }` : type;
+};
+
+const baseTypeOf = (parser: Parser<any, any>, refs: TypeScriptRefs): string => {
+	const { def } = parser;
+	const modifier = refs.readonly ? 'readonly ' : '';
+	if (def.type === 'string' || def.type === 'number' || def.type === 'boolean' || def.type === 'symbol' || def.type === 'null' || def.type === 'never') {
+		return def.type;
+	} else if (def.type === 'bigInt') {
+		return 'bigint';
+	} else if (def.type === 'date') {
+		return 'Date';
+	} else if (def.type === 'regexp') {
+		return 'RegExp';
+	} else if (def.type === 'func') {
+		return 'Function';
+	} else if (binaryTypes.some((name) => binaryTypeOf(name) === def.type)) {
+		return binaryTypes.find((name) => binaryTypeOf(name) === def.type) as string;
+	} else if (def.type === 'instance') {
+		return def.className || 'object';
+	} else if ((def.type === 'object' || def.type === 'objectLoose') && def.shape) {
+		return objectTypeOf(def, def.shape, refs);
+	} else if (def.type === 'array' && def.element) {
+		return `${modifier}${grouped(typeScriptOf(def.element, refs))}[]`;
+	} else if (def.type === 'record' && def.element) {
+		return `{ ${modifier}[key: string]: ${typeScriptOf(def.element, refs)} }`;
+	} else if (def.type === 'set' && def.element) {
+		return `${refs.readonly ? 'ReadonlySet' : 'Set'}<${typeScriptOf(def.element, refs)}>`;
+	} else if (def.type === 'map' && def.key && def.element) {
+		return `${refs.readonly ? 'ReadonlyMap' : 'Map'}<${typeScriptOf(def.key, refs)}, ${typeScriptOf(def.element, refs)}>`;
+	} else if (def.type === 'tuple' && def.items) {
+		return `${modifier}[${def.items.map((item) => typeScriptOf(item, refs)).join(', ')}]`;
+	} else if (def.type === 'enums' && def.values) {
+		return unionOf(def.values.map(typeLiteral));
+	} else if (def.type === 'and' && def.options) {
+		return `${modifier}[${def.options.map((option) => typeScriptOf(option, refs)).join(', ')}]`;
+	} else if ((def.type === 'or' || def.type === 'union' || def.type === 'oneOf' || def.type === 'discriminatedUnion') && def.options) {
+		return unionOf(def.options.map((option) => typeScriptOf(option, refs)));
+	} else if (def.type === 'lazy' && def.getter) {
+		return typeScriptOf(def.getter(), refs);
+	}
+	return 'unknown';
+};
+
+const typeScriptOf = (parser: Parser<any, any>, refs: TypeScriptRefs, root = false): string => {
+	if (!root && refs.named.has(parser)) {
+		return refs.readonly ? `Readonly<${refs.named.get(parser)}>` : (refs.named.get(parser) as string);
+	} else if (refs.visiting.has(parser)) {
+		return 'unknown';
+	}
+	const outer = refs.readonly;
+	refs.visiting.add(parser);
+	refs.readonly = outer || parser.def.checks.some((c) => c.check === 'readonly');
+	let types = [baseTypeOf(parser, refs)];
+	parser.def.checks.forEach((c) => {
+		if (c.check === 'optional') {
+			types = [...types, 'undefined'];
+		} else if (c.check === 'nullable') {
+			types = [...types, 'null'];
+		} else if (c.check === 'default') {
+			types = types.filter((type) => type !== 'undefined');
+		} else if (c.check === 'required') {
+			types = types.filter((type) => type !== 'undefined' && type !== 'null');
+		} else if (c.check === 'prohibited') {
+			types = ['undefined', 'null'];
+		} else if (c.check === 'map' || c.check === 'mapAsync' || c.check === 'transform') {
+			types = ['unknown'];
+		} else if (c.check === 'pipe' || c.check === 'combine') {
+			types = [typeScriptOf(c.parser, refs)];
+		} else if (c.check === 'conditional') {
+			types = [typeScriptOf(c.trueParser, refs), typeScriptOf(c.falseParser, refs)];
+		} else if (c.check === 'not') {
+			types = [`[${unionOf(types)}, ${typeScriptOf(c.parser, refs)}]`];
+		}
+	});
+	refs.visiting.delete(parser);
+	refs.readonly = outer;
+	return unionOf(types);
+};
+
+const toTypeScript = (parsers: { [name: string]: Parser<any, any> }): string => {
+	const names = Object.keys(parsers);
+	const refs: TypeScriptRefs = { named: new Map(names.map((name) => [parsers[name], name])), visiting: new Set(), readonly: false };
+	return names.map((name) => `${docComment(parsers[name].def)}export type ${name} = ${typeScriptOf(parsers[name], refs, true)};\n`).join('\n');
+};
+
+const resolveRef = (root: JSONSchema | boolean, ref: string): JSONSchema | boolean => {
+	if (!ref.startsWith('#')) {
+		throw new Error(`Only local $ref is supported: ${ref}`);
+	}
+	return ref
+		.slice(1)
+		.split('/')
+		.filter((part) => part !== '')
+		.reduce((target: any, part) => {
+			const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+			if (typeof target !== 'object' || target === null || !Object.prototype.hasOwnProperty.call(target, key)) {
+				throw new Error(`Cannot resolve $ref: ${ref}`);
+			}
+			return target[key];
+		}, root);
+};
+
+// Without `type`, keywords only constrain instances of the type they apply to: `{ minLength: 2 }` still accepts numbers.
+const keywordJSONTypes = (schema: JSONSchema): string[] => {
+	const has = (keywords: string[]) => keywords.some((keyword) => Object.prototype.hasOwnProperty.call(schema, keyword));
+	const types: string[] = [];
+	if (has(['properties', 'required', 'additionalProperties', 'minProperties', 'maxProperties'])) {
+		types.push('object');
+	}
+	if (has(['items', 'prefixItems', 'minItems', 'maxItems', 'uniqueItems', 'contains'])) {
+		types.push('array');
+	}
+	if (has(['minLength', 'maxLength', 'pattern', 'format'])) {
+		types.push('string');
+	}
+	if (has(['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'])) {
+		types.push('number');
+	}
+	return types;
+};
+
+const jsonTypeOf = (v: any): string => (v === null ? 'null' : Array.isArray(v) ? 'array' : typeof v);
+
+const jsonEqual = (a: any, b: any): boolean => {
+	if (a === b) {
+		return true;
+	} else if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) {
+		return false;
+	} else if (Array.isArray(a)) {
+		return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+	}
+	const keys = Object.keys(a);
+	return keys.length === Object.keys(b).length && keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && jsonEqual(a[key], b[key]));
+};
+
+const fromJSONType = (type: string, schema: JSONSchema, root: JSONSchema | boolean): Parser<any> => {
+	let parser: Parser<any>;
+	if (type === 'string') {
+		parser = string();
+		if (schema.minLength !== undefined) {
+			parser = parser.minLength(schema.minLength);
+		}
+		if (schema.maxLength !== undefined) {
+			parser = parser.maxLength(schema.maxLength);
+		}
+		if (schema.format === 'email') {
+			parser = parser.email();
+		} else if (schema.format === 'ipv4') {
+			parser = parser.ipv4();
+		} else if (schema.format === 'ipv6') {
+			parser = parser.ipv6();
+		} else if (schema.format === 'hostname') {
+			parser = parser.domain();
+		} else if (schema.format === 'uri') {
+			parser = parser.url();
+		} else if (schema.format === 'uuid') {
+			parser = parser.uuid();
+		} else if (schema.format === 'date') {
+			parser = parser.isoDate();
+		} else if (schema.format === 'time') {
+			parser = parser.isoTime();
+		} else if (schema.format === 'date-time') {
+			parser = parser.isoDateTime();
+		}
+		if (schema.pattern !== undefined) {
+			parser = parser.pattern(new RegExp(schema.pattern, 'u'));
+		}
+	} else if (type === 'number' || type === 'integer') {
+		parser = type === 'integer' ? number().integer() : number();
+		if (schema.minimum !== undefined) {
+			parser = parser.moreThanOrEqualTo(schema.minimum);
+		}
+		if (schema.maximum !== undefined) {
+			parser = parser.lessThanOrEqualTo(schema.maximum);
+		}
+		if (schema.exclusiveMinimum !== undefined) {
+			parser = parser.moreThan(schema.exclusiveMinimum);
+		}
+		if (schema.exclusiveMaximum !== undefined) {
+			parser = parser.lessThan(schema.exclusiveMaximum);
+		}
+		if (schema.multipleOf !== undefined) {
+			parser = parser.custom((v: number) => Math.abs(v / schema.multipleOf - Math.round(v / schema.multipleOf)) < 1e-9, `Value must be a multiple of ${schema.multipleOf}`);
+		}
+	} else if (type === 'boolean') {
+		parser = boolean();
+	} else if (type === 'null') {
+		parser = define<null>({ type: 'null', checks: [] }, (v: any) => {
+			assert(v === null, 'Expected null', { check: 'null', code: 'invalid_type', expected: 'null', received: typeOf(v) });
+			return v;
+		});
+	} else if (type === 'object') {
+		const properties: Shape = {};
+		Object.keys(schema.properties || {}).forEach((key) => (properties[key] = fromJSONSchema(schema.properties[key], root)));
+		const required: string[] = schema.required || [];
+		const additional = schema.additionalProperties === undefined || typeof schema.additionalProperties === 'boolean' ? null : fromJSONSchema(schema.additionalProperties, root);
+		parser = define({ type: 'objectLoose', checks: [], shape: properties }, (v: any, options) => {
+			assert(typeof v === 'object' && v !== null && !Array.isArray(v), 'Expected an object', { check: 'object', code: 'invalid_type', expected: 'object', received: typeOf(v) });
+			const keys = Object.keys(v);
+			const values = keys.map((key) =>
+				checkAt(key, options, () => {
+					if (Object.prototype.hasOwnProperty.call(properties, key)) {
+						return properties[key].check(v[key], options);
+					}
+					assert(schema.additionalProperties !== false, `Unexpected property: ${key}`, { check: 'object', code: 'unexpected_property', received: key });
+					return additional ? additional.check(v[key], options) : v[key];
+				})
+			);
+			const missing = required
+				.filter((key) => !Object.prototype.hasOwnProperty.call(v, key))
+				.map((key) =>
+					checkAt(key, options, () => {
+						throw new PRSEError(`Missing property: ${key}`, { check: 'object', code: 'missing_property', expected: key });
+					})
+				);
+			return collect([...values, ...missing], (results) => {
+				const result: any = {};
+				keys.forEach((key, i) => setProperty(result, key, results[i]));
+				return result;
+			});
+		});
+		if (schema.minProperties !== undefined) {
+			parser = parser.minLength(schema.minProperties);
+		}
+		if (schema.maxProperties !== undefined) {
+			parser = parser.maxLength(schema.maxProperties);
+		}
+	} else if (type === 'array') {
+		const prefix: Parser<any>[] = (schema.prefixItems || []).map((item: JSONSchema) => fromJSONSchema(item, root));
+		const items = schema.items === undefined || schema.items === true ? unknown() : fromJSONSchema(schema.items, root);
+		if (prefix.length === 0) {
+			parser = array(items);
+		} else {
+			parser = define({ type: 'tuple', checks: [], items: prefix }, (v: any, options) => {
+				assert(Array.isArray(v), 'Expected an array', { check: 'array', code: 'invalid_type', expected: 'array', received: typeOf(v) });
+				assert(schema.items !== false || v.length <= prefix.length, `Array must have at most ${prefix.length} elements`, { check: 'array', code: 'too_big', expected: prefix.length, received: v.length });
+				const values = v.map((item: any, i: number) => checkAt(i, options, () => (i < prefix.length ? prefix[i] : items).check(item, options)));
+				return collect(values, (results) => results);
+			});
+		}
+		if (schema.minItems !== undefined) {
+			parser = parser.minLength(schema.minItems);
+		}
+		if (schema.maxItems !== undefined) {
+			parser = parser.maxLength(schema.maxItems);
+		}
+		if (schema.uniqueItems === true) {
+			parser = parser.custom((v: any[]) => v.every((item, i) => v.findIndex((other) => jsonEqual(item, other)) === i), 'Array items must be unique');
+		}
+		if (schema.contains !== undefined) {
+			parser = parser.some(fromJSONSchema(schema.contains, root));
+		}
+	} else {
+		throw new Error(`Unknown JSON Schema type: ${type}`);
+	}
+	return parser;
+};
+
+const fromJSONSchema = (schema: JSONSchema | boolean, root: JSONSchema | boolean = schema): Parser<any> => {
+	if (schema === true) {
+		return unknown();
+	} else if (schema === false) {
+		return define<any>({ type: 'never', checks: [] }, (v: any) => {
+			throw new PRSEError('No value is allowed', { check: 'never', code: 'invalid_type', received: typeOf(v) });
+		});
+	}
+	const parsers: Parser<any>[] = [];
+	if (schema.$ref !== undefined) {
+		parsers.push(lazy(() => fromJSONSchema(resolveRef(root, schema.$ref), root)));
+	}
+	if (Array.isArray(schema.type)) {
+		const alternatives = schema.type.map((t: string) => fromJSONType(t, schema, root));
+		parsers.push(alternatives[0].or(...alternatives.slice(1)));
+	} else if (schema.type !== undefined) {
+		parsers.push(fromJSONType(schema.type, schema, root));
+	} else {
+		keywordJSONTypes(schema).forEach((type) => {
+			const typed = fromJSONType(type, schema, root);
+			parsers.push(define<any>({ type: 'unknown', checks: [] }, (v: any, options) => (jsonTypeOf(v) === type ? typed.check(v, options) : v)));
+		});
+	}
+	if (schema.enum !== undefined) {
+		const values: any[] = schema.enum;
+		parsers.push(values.every((value) => typeof value !== 'object' || value === null) ? enums(values) : unknown().custom((v) => values.some((value) => jsonEqual(v, value)), `Expected one of: ${values.map((value) => JSON.stringify(value)).join(', ')}`));
+	}
+	if (Object.prototype.hasOwnProperty.call(schema, 'const')) {
+		parsers.push(typeof schema.const === 'object' && schema.const !== null ? unknown().custom((v) => jsonEqual(v, schema.const), `Expected to be equal to: ${JSON.stringify(schema.const)}`) : unknown().strictlyEqualTo(schema.const));
+	}
+	if (schema.anyOf !== undefined) {
+		const alternatives: Parser<any>[] = schema.anyOf.map((item: JSONSchema) => fromJSONSchema(item, root));
+		parsers.push(alternatives[0].or(...alternatives.slice(1)));
+	}
+	if (schema.oneOf !== undefined) {
+		const alternatives: Parser<any>[] = schema.oneOf.map((item: JSONSchema) => fromJSONSchema(item, root));
+		parsers.push(
+			define({ type: 'oneOf', checks: [], options: alternatives }, (v: any, options) => {
+				const results = alternatives.map((alternative) =>
+					attempt(
+						() => whenDone(alternative.check(v, options), (data) => ({ data })),
+						(e) => {
+							if (!(e instanceof PRSEError)) {
+								throw e;
+							}
+							return new Invalid(e.issues);
+						}
+					)
+				);
+				return whenAll(results, (settled) => {
+					const matches = settled.filter((result) => !(result instanceof Invalid));
+					if (matches.length === 1) {
+						return matches[0].data;
+					}
+					const issues = settled.reduce((list: PRSEIssue[], result) => (result instanceof Invalid ? list.concat(result.issues) : list), []);
+					throw new PRSEError(matches.length === 0 ? 'Value does not match any of the oneOf schemas' : 'Value matches more than one of the oneOf schemas', { check: 'oneOf', code: 'invalid_union', received: v, issues });
+				});
+			})
+		);
+	}
+	if (schema.allOf !== undefined) {
+		parsers.push(...schema.allOf.map((item: JSONSchema) => fromJSONSchema(item, root)));
+	}
+	if (schema.not !== undefined) {
+		parsers.push(
+			unknown()
+				.not(fromJSONSchema(schema.not, root))
+				.map(([v]) => v)
+		);
+	}
+	return parsers.length === 0 ? unknown() : parsers.reduce((parser, next) => parser.combine(next));
+};
+
+type Compiled = (v: any, options: ParseOptions) => any;
+
+const failed = Symbol('failed');
+
+const compiledParsers = new WeakMap<Parser<any, any>, Compiled>();
+
+const exactKinds = new WeakMap<Compiled, string>();
+
+const stringTransforms = ['trim', 'toLowerCase', 'toUpperCase', 'normalize', 'collapseWhitespace', 'truncate'];
+
+const exact = (compiled: Compiled, kind: string): Compiled => {
+	exactKinds.set(compiled, kind);
+	return compiled;
+};
+
+const exactWhen = (condition: boolean, compiled: Compiled, kind: string): Compiled => (condition ? exact(compiled, kind) : compiled);
+
+const lengthOf = (v: any): number => (typeof v === 'string' || Array.isArray(v) ? v.length : NaN);
+
+const sizeOf = (v: any): number => (typeof v === 'number' ? v : lengthOf(v));
+
+const interpret =
+	(parser: Parser<any, any>): Compiled =>
+	(v, options) => {
+		try {
+			return parser.check(v, options);
+		} catch (e) {
+			if (e instanceof PRSEError) {
+				return failed;
+			}
+			throw e;
+		}
+	};
+
+const step =
+	(inner: Compiled, fn: (v: any) => any): Compiled =>
+	(v, options) => {
+		const result = inner(v, options);
+		return result === failed ? failed : fn(result);
+	};
+
+const when =
+	(test: (v: any) => boolean) =>
+	(v: any): any =>
+		test(v) ? v : failed;
+
+const compileCheck = (c: ParserCheck, inner: Compiled, parser: Parser<any, any>): Compiled | undefined => {
+	const kind = exactKinds.get(inner);
+	const isString = (v: any) => typeof v === 'string';
+	const sized = kind === 'number' || kind === 'string' || kind === 'array';
+	const lengthed = kind === 'string' || kind === 'array';
+	const checkSize = (test: (v: any) => boolean) => exactWhen(sized, step(inner, when(test)), kind as string);
+	const checkLength = (test: (v: any) => boolean) => exactWhen(lengthed, step(inner, when(test)), kind as string);
+	const checkString = (test: (v: any) => boolean) =>
+		exactWhen(
+			kind === 'string',
+			step(
+				inner,
+				when((v) => isString(v) && test(v))
+			),
+			'string'
+		);
+	const checkAny = (test: (v: any) => boolean) => exactWhen(kind !== undefined, step(inner, when(test)), kind as string);
+	switch (c.check) {
+		case 'optional':
+			return exactWhen(kind !== undefined, (v, options) => (v === undefined || v === null ? v : inner(v, options)), 'any');
+		case 'nullable':
+			return exactWhen(kind !== undefined, (v, options) => (v === null ? v : inner(v, options)), 'any');
+		case 'required':
+			return exactWhen(kind !== undefined, (v, options) => (v === undefined || v === null ? failed : inner(v, options)), kind as string);
+		case 'default': {
+			const fallback = kind !== undefined ? () => c.value : interpret(parser);
+			return exact((v, options) => {
+				const result = inner(v, options);
+				return result === failed ? fallback(v, options) : result;
+			}, 'any');
+		}
+		case 'readonly':
+			return exactWhen(kind !== undefined, step(inner, c.throwOnMutation ? (v) => readonlyProxy(v) : (v) => frozenCopy(v)), 'any');
+		case 'range':
+			return checkSize((v) => sizeOf(v) >= c.min && sizeOf(v) <= c.max);
+		case 'moreThan':
+			return checkSize((v) => sizeOf(v) > c.min);
+		case 'lessThan':
+			return checkSize((v) => sizeOf(v) < c.max);
+		case 'moreThanOrEqualTo':
+			return checkSize((v) => sizeOf(v) >= c.min);
+		case 'lessThanOrEqualTo':
+			return checkSize((v) => sizeOf(v) <= c.max);
+		case 'minLength':
+			return checkLength((v) => lengthOf(v) >= c.min);
+		case 'maxLength':
+			return checkLength((v) => lengthOf(v) <= c.max);
+		case 'length':
+			return checkLength((v) => lengthOf(v) === c.length);
+		case 'notEmpty':
+			return checkLength((v) => lengthOf(v) > 0);
+		case 'finiteNumber':
+			return exactWhen(kind === 'number', step(inner, when(Number.isFinite)), 'number');
+		case 'integer':
+			return checkAny(Number.isInteger);
+		case 'notZero':
+			return checkAny((v) => v !== 0);
+		case 'equalTo':
+			return checkAny((v) => v == c.value);
+		case 'strictlyEqualTo':
+			return checkAny((v) => v === c.value);
+		case 'notEqualTo':
+			return checkAny((v) => v != c.value);
+		case 'oneOf':
+			return checkString((v) => c.values.includes(v));
+		case 'pattern':
+			return checkString((v) => c.regex.test(v));
+		case 'first':
+			return checkString((v) => v.startsWith(c.value));
+		case 'last':
+			return checkString((v) => v.endsWith(c.value));
+		case 'includes':
+			return checkString((v) => v.includes(c.value));
+	}
+	if (c.test !== undefined) {
+		const test = c.test;
+		return exactWhen(
+			kind !== undefined,
+			step(
+				inner,
+				when((v) => isString(v) && (typeof test === 'function' ? test(v) : test.test(v)))
+			),
+			'string'
+		);
+	} else if (stringTransforms.includes(c.check)) {
+		const transform = c.transform;
+		return exactWhen(
+			kind !== undefined,
+			step(inner, (v) => (isString(v) ? transform(v) : failed)),
+			'string'
+		);
+	}
+	return undefined;
+};
+
+const compileObject = (def: ParserDef): Compiled => {
+	const schema = def.shape as Shape;
+	const loose = def.type === 'objectLoose';
+	const keys = Object.keys(schema);
+	const fields = keys.map((key) => compileParser(schema[key]));
+	const catchall = def.catchall ? compileParser(def.catchall) : undefined;
+	const keepExtra = catchall !== undefined || def.unknownKeys === 'passthrough';
+	const compiled: Compiled = (v, options) => {
+		if (typeof v !== 'object' || v === null) {
+			return failed;
+		}
+		const result: any = {};
+		for (let i = 0; i < keys.length; i++) {
+			const key = keys[i];
+			const has = Object.prototype.hasOwnProperty.call(v, key);
+			if (loose && !has) {
+				continue;
+			}
+			const value = fields[i](has ? v[key] : undefined, options);
+			if (value === failed) {
+				return failed;
+			} else if (value !== undefined || has) {
+				setProperty(result, key, value);
+			}
+		}
+		for (const key of Object.keys(v)) {
+			if (Object.prototype.hasOwnProperty.call(schema, key)) {
+				continue;
+			} else if (def.unknownKeys === 'strict' && catchall === undefined) {
+				return failed;
+			} else if (keepExtra) {
+				const value = catchall ? catchall(v[key], options) : v[key];
+				if (value === failed) {
+					return failed;
+				}
+				setProperty(result, key, value);
+			}
+		}
+		return result;
+	};
+	return exactWhen(allExact(catchall ? [...fields, catchall] : fields), compiled, 'object');
+};
+
+const allExact = (compiled: Compiled[]): boolean => compiled.every((item) => exactKinds.has(item));
+
+const compileItems = (v: any[], items: Compiled[], options: ParseOptions): any => {
+	const result = new Array(v.length);
+	for (let i = 0; i < v.length; i++) {
+		if (i in v) {
+			const value = items[i](v[i], options);
+			if (value === failed) {
+				return failed;
+			}
+			result[i] = value;
+		}
+	}
+	return result;
+};
+
+const compileAlternatives = (alternatives: Parser<any, any>[]): Compiled => {
+	const compiled = alternatives.map((alternative) => compileParser(alternative));
+	const fallbacks = alternatives.map((alternative, i) => (exactKinds.has(compiled[i]) ? () => failed : interpret(alternative)));
+	return exactWhen(
+		allExact(compiled),
+		(v, options) => {
+			for (let i = 0; i < compiled.length; i++) {
+				const result = compiled[i](v, options);
+				const checked = result === failed ? fallbacks[i](v, options) : result;
+				if (checked !== failed) {
+					return checked;
+				}
+			}
+			return failed;
+		},
+		'any'
+	);
+};
+
+const compileType = (parser: Parser<any, any>): Compiled | undefined => {
+	const { def } = parser;
+	if (def.type === 'string' || def.type === 'number' || def.type === 'boolean') {
+		return exact((v) => (typeof v === def.type ? v : failed), def.type);
+	} else if (def.type === 'unknown') {
+		return exact((v) => v, 'any');
+	} else if (def.type === 'object' || def.type === 'objectLoose') {
+		return compileObject(def);
+	} else if (def.type === 'array' && def.element) {
+		const element = compileParser(def.element);
+		return exactWhen(
+			allExact([element]),
+			(v, options) =>
+				Array.isArray(v)
+					? compileItems(
+							v,
+							v.map(() => element),
+							options
+						)
+					: failed,
+			'array'
+		);
+	} else if (def.type === 'tuple' && def.items) {
+		const items = def.items.map((item) => compileParser(item));
+		return exactWhen(allExact(items), (v, options) => (Array.isArray(v) && v.length === items.length ? compileItems(v, items, options) : failed), 'array');
+	} else if (def.type === 'record' && def.element) {
+		const element = compileParser(def.element);
+		const compiled: Compiled = (v, options) => {
+			if (typeof v !== 'object' || v === null || Array.isArray(v)) {
+				return failed;
+			}
+			const result: any = {};
+			for (const key of Object.keys(v)) {
+				const value = element(v[key], options);
+				if (value === failed) {
+					return failed;
+				}
+				setProperty(result, key, value);
+			}
+			return result;
+		};
+		return exactWhen(allExact([element]), compiled, 'object');
+	} else if (def.type === 'enums' && def.values) {
+		const values = def.values;
+		return exact((v) => (values.indexOf(v) !== -1 ? v : failed), 'any');
+	} else if ((def.type === 'or' || def.type === 'union') && def.options) {
+		return compileAlternatives(def.options);
+	} else if (def.type === 'discriminatedUnion' && def.branches && def.discriminator !== undefined) {
+		const branches: { [tag: string]: Compiled } = {};
+		const key = def.discriminator;
+		Object.keys(def.branches).forEach((tag) => (branches[tag] = compileParser((def.branches as Shape)[tag])));
+		const compiled: Compiled = (v, options) => {
+			if (typeof v !== 'object' || v === null || Array.isArray(v)) {
+				return failed;
+			}
+			const tag = v[key];
+			return (typeof tag === 'string' || typeof tag === 'number') && Object.prototype.hasOwnProperty.call(branches, tag) ? branches[tag](v, options) : failed;
+		};
+		return exactWhen(allExact(Object.keys(branches).map((tag) => branches[tag])), compiled, 'any');
+	}
+	return undefined;
+};
+
+const compileParser = (parser: Parser<any, any>): Compiled => {
+	let compiled = compiledParsers.get(parser);
+	if (compiled === undefined) {
+		const parent = parentParsers.get(parser);
+		const annotated = annotatedParsers.get(parser);
+		if (annotated !== undefined) {
+			compiled = compileParser(annotated);
+		} else if (parent !== undefined) {
+			compiled = compileCheck(parser.def.checks[parser.def.checks.length - 1], compileParser(parent), parser);
+		} else if (nativeParsers.has(parser)) {
+			compiled = compileType(parser);
+		}
+		compiled = compiled || interpret(parser);
+		compiledParsers.set(parser, compiled);
+	}
+	return compiled;
+};
+
+const compile = <T, I>(parser: Parser<T, I>): Parser<T, I> => {
+	const fast = compileParser(parser);
+	const compiled = new Parser<T, I>(
+		(v: any, options) => {
+			if (options.async || options.abortEarly === false) {
+				return parser.check(v, options);
+			}
+			const result = fast(v, options);
+			return result === failed ? parser.check(v, options) : result;
+		},
+		'',
+		parser.def
+	);
+	compiledParsers.set(compiled, fast);
+	return compiled;
+};
+
+interface GenerateOptions {
+	seed?: number;
+}
+
+type Random = () => number;
+
+const seededRandom = (seed: number): Random => {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = Math.imul(state ^ (state >>> 15), state | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+const randomInt = (random: Random, min: number, max: number): number => min + Math.floor(random() * (max - min + 1));
+
+const pick = <T>(random: Random, list: readonly T[]): T => list[Math.floor(random() * list.length)];
+
+const randomChars = (random: Random, alphabet: string, length: number): string => Array.from({ length }, () => pick(random, alphabet.split(''))).join('');
+
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+
+const HEX = '0123456789abcdef';
+
+const ALPHANUMERIC = `${LOWER}0123456789`;
+
+const BASE64 = `ABCDEFGHIJKLMNOPQRSTUVWXYZ${LOWER}0123456789+/`;
+
+const word = (random: Random): string => randomChars(random, LOWER, randomInt(random, 3, 8));
+
+const ipv4Of = (random: Random): string => Array.from({ length: 4 }, () => randomInt(random, 0, 255)).join('.');
+
+const ipv6Of = (random: Random): string => Array.from({ length: 8 }, () => randomInt(random, 0, 65535).toString(16)).join(':');
+
+const luhnDigit = (digits: string): number => {
+	const sum = digits
+		.split('')
+		.reverse()
+		.reduce((total, digit, i) => {
+			const n = Number(digit) * (i % 2 === 0 ? 2 : 1);
+			return total + (n > 9 ? n - 9 : n);
+		}, 0);
+	return (10 - (sum % 10)) % 10;
+};
+
+const formats: { [check: string]: (random: Random, c: ParserCheck) => string } = {
+	email: (random) => `${word(random)}@${word(random)}.${pick(random, ['com', 'org', 'net', 'io'])}`,
+	ipv4: ipv4Of,
+	ipv6: ipv6Of,
+	domain: (random) => `${word(random)}.${pick(random, ['com', 'org', 'net', 'io'])}`,
+	url: (random, c) => `${c.protocols ? pick(random, c.protocols) : 'https'}://${word(random)}.com/${word(random)}`,
+	uuid: (random, c) => `${randomChars(random, HEX, 8)}-${randomChars(random, HEX, 4)}-${c.version || 4}${randomChars(random, HEX, 3)}-${pick(random, ['8', '9', 'a', 'b'])}${randomChars(random, HEX, 3)}-${randomChars(random, HEX, 12)}`,
+	ulid: (random) => `${randomInt(random, 0, 7)}${randomChars(random, '0123456789ABCDEFGHJKMNPQRSTVWXYZ', 25)}`,
+	cuid2: (random) => `${randomChars(random, LOWER, 1)}${randomChars(random, ALPHANUMERIC, 23)}`,
+	semver: (random) => `${randomInt(random, 0, 20)}.${randomInt(random, 0, 20)}.${randomInt(random, 0, 20)}`,
+	isoDate: (random) => new Date(randomInt(random, 0, 4102444800000)).toISOString().slice(0, 10),
+	isoTime: (random) => new Date(randomInt(random, 0, 86399999)).toISOString().slice(11, 19),
+	isoDateTime: (random) => new Date(randomInt(random, 0, 4102444800000)).toISOString(),
+	hexColor: (random) => `#${randomChars(random, HEX, 6)}`,
+	base64: (random) => randomChars(random, BASE64, 4 * randomInt(random, 1, 4)),
+	base64url: (random) => randomChars(random, `${BASE64.slice(0, 62)}-_`, 4 * randomInt(random, 1, 4)),
+	slug: (random) => Array.from({ length: randomInt(random, 1, 3) }, () => word(random)).join('-'),
+	e164: (random) => `+${randomInt(random, 1, 9)}${randomChars(random, '0123456789', randomInt(random, 7, 13))}`,
+	cidr: (random, c) => (c.version === 6 ? `${ipv6Of(random)}/${randomInt(random, 0, 128)}` : `${ipv4Of(random)}/${randomInt(random, 0, 32)}`),
+	mac: (random) => Array.from({ length: 6 }, () => randomChars(random, HEX, 2)).join(':'),
+	creditCard: (random) => {
+		const digits = `4${randomChars(random, '0123456789', 14)}`;
+		return `${digits}${luhnDigit(digits)}`;
+	}
+};
+
+const boundsOf = (checks: ParserCheck[], integer: boolean, defaultMin: number, defaultSpan: number, lengths = true): [number, number] => {
+	const step = integer ? 1 : 0;
+	let min = -Infinity;
+	let max = Infinity;
+	checks.forEach((c) => {
+		if (c.check === 'range') {
+			min = Math.max(min, c.min);
+			max = Math.min(max, c.max);
+		} else if (c.check === 'moreThan' || c.check === 'moreThanOrEqualTo') {
+			min = Math.max(min, c.check === 'moreThan' ? c.min + step : c.min);
+		} else if (c.check === 'lessThan' || c.check === 'lessThanOrEqualTo') {
+			max = Math.min(max, c.check === 'lessThan' ? c.max - step : c.max);
+		} else if (!lengths) {
+			return;
+		} else if (c.check === 'minLength' || c.check === 'notEmpty') {
+			min = Math.max(min, c.check === 'notEmpty' ? 1 : c.min);
+		} else if (c.check === 'maxLength' || c.check === 'empty') {
+			max = Math.min(max, c.check === 'empty' ? 0 : c.max);
+		} else if (c.check === 'length') {
+			min = max = c.length;
+		}
+	});
+	if (min === -Infinity) {
+		min = max === Infinity ? defaultMin : Math.min(defaultMin, max - defaultSpan);
+	}
+	return [min, max === Infinity ? min + defaultSpan : max];
+};
+
+const bigIntBoundsOf = (checks: ParserCheck[]): [bigint, bigint] => {
+	const floor = (v: number | bigint) => (typeof v === 'bigint' ? v : BigInt(Math.floor(v)));
+	const ceil = (v: number | bigint) => (typeof v === 'bigint' ? v : BigInt(Math.ceil(v)));
+	let min: bigint | undefined;
+	let max: bigint | undefined;
+	const raise = (value: bigint) => (min = min === undefined || value > min ? value : min);
+	const lower = (value: bigint) => (max = max === undefined || value < max ? value : max);
+	checks.forEach((c) => {
+		if (c.check === 'range') {
+			raise(ceil(c.min));
+			lower(floor(c.max));
+		} else if (c.check === 'moreThan' || c.check === 'moreThanOrEqualTo') {
+			raise(c.check === 'moreThan' ? floor(c.min) + BigInt(1) : ceil(c.min));
+		} else if (c.check === 'lessThan' || c.check === 'lessThanOrEqualTo') {
+			lower(c.check === 'lessThan' ? ceil(c.max) - BigInt(1) : floor(c.max));
+		}
+	});
+	const low = min !== undefined ? min : max !== undefined && max < BigInt(-1000) ? max - BigInt(2000) : BigInt(-1000);
+	return [low, max !== undefined ? max : low + BigInt(2000)];
+};
+
+const dateBoundsOf = (checks: ParserCheck[]): [number, number] => {
+	const current = now({}).getTime();
+	let min = -Infinity;
+	let max = Infinity;
+	checks.forEach((c) => {
+		if (c.check === 'after' || c.check === 'minDate') {
+			min = Math.max(min, toDate(c.min).getTime() + (c.check === 'after' ? 1 : 0));
+		} else if (c.check === 'before' || c.check === 'maxDate') {
+			max = Math.min(max, toDate(c.max).getTime() - (c.check === 'before' ? 1 : 0));
+		} else if (c.check === 'inFuture' || c.check === 'withinNext') {
+			min = Math.max(min, current + 60000);
+			max = c.check === 'withinNext' ? Math.min(max, current + durationOf(c.duration)) : max;
+		} else if (c.check === 'inPast' || c.check === 'withinLast') {
+			max = Math.min(max, current - 60000);
+			min = c.check === 'withinLast' ? Math.max(min, current - durationOf(c.duration)) : min;
+		} else if (c.check === 'sameDateAs') {
+			min = max = toDate(c.value).getTime();
+		} else if (c.check === 'sameDay') {
+			min = max = Date.parse(`${calendarDayOf(c.value, c.timeZone)}T12:00:00Z`);
+		}
+	});
+	const year = 365 * 24 * 3600000;
+	if (min === -Infinity) {
+		min = max === Infinity ? 946684800000 : max - 10 * year;
+	}
+	return [min, max === Infinity ? min + 30 * year : max];
+};
+
+const generateString = (random: Random, checks: ParserCheck[]): string => {
+	const format = checks.find((c) => Object.prototype.hasOwnProperty.call(formats, c.check));
+	const oneOf = checks.find((c) => c.check === 'oneOf');
+	if (format) {
+		return formats[format.check](random, format);
+	} else if (oneOf) {
+		return pick(random, oneOf.values);
+	}
+	const [min, max] = boundsOf(checks, true, 0, 10);
+	let result = randomChars(random, ALPHANUMERIC, randomInt(random, min, max));
+	checks.forEach((c) => {
+		if (c.check === 'first') {
+			result = c.value + result.slice(c.value.length);
+		} else if (c.check === 'last') {
+			result = result.slice(0, Math.max(0, result.length - c.value.length)) + c.value;
+		} else if (c.check === 'includes' && !result.includes(c.value)) {
+			result = result.slice(0, Math.max(0, result.length - c.value.length)) + c.value;
+		}
+	});
+	return result;
+};
+
+const encodeBytes = (bytes: Uint8Array, encoding: string): string => {
+	if (encoding === 'hex') {
+		return Array.from(bytes, (byte) => `0${byte.toString(16)}`.slice(-2)).join('');
+	}
+	let text = '';
+	for (let i = 0; i < bytes.length; i += 3) {
+		const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+		text += [18, 12, 6, 0].map((shift, j) => (j <= bytes.length - i ? BASE64[(chunk >> shift) & 63] : '=')).join('');
+	}
+	return encoding === 'base64url' ? text.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') : text;
+};
+
+const generateBinary = (def: ParserDef, random: Random): any => {
+	const { checks } = def;
+	const fileType = checks.find((c) => c.check === 'fileType');
+	const signature: (number | null)[] = fileType ? fileSignatures[fileType.types[0] as FileType][0] : [];
+	const elementRange = checks.find((c) => c.check === 'elementRange');
+	const constructor = (globalThis as any)[binaryTypes.find((name) => binaryTypeOf(name) === def.type) as string];
+	const elementSize = constructor.BYTES_PER_ELEMENT || 1;
+	const byteChecks = checks.map((c) => (c.check === 'minByteLength' ? { check: 'minLength', min: c.min } : c.check === 'maxByteLength' ? { check: 'maxLength', max: c.max } : c.check === 'byteLength' ? { check: 'length', length: c.length } : c));
+	const [min, max] = boundsOf(byteChecks, true, signature.length, 16);
+	const count = randomInt(random, Math.ceil(Math.max(min, signature.length) / elementSize), Math.floor(max / elementSize));
+	const float = def.type === 'float32Array' || def.type === 'float64Array';
+	const big = def.type === 'bigInt64Array' || def.type === 'bigUint64Array';
+	const [low, high] = elementRange ? [Number(elementRange.min), Number(elementRange.max)] : [0, elementSize === 1 ? 127 : 1000];
+	const items = Array.from({ length: count }, () => (float ? Math.round((low + random() * (high - low)) * 100) / 100 : randomInt(random, Math.ceil(low), Math.floor(high))));
+	const typed = constructor.BYTES_PER_ELEMENT === undefined ? new Uint8Array(items) : new constructor(big ? items.map((item) => BigInt(item)) : items);
+	const bytes = new Uint8Array(typed.buffer);
+	signature.forEach((byte, i) => (bytes[i] = byte === null ? bytes[i] : byte));
+	const decoded = checks.find((c) => c.check === 'decode');
+	if (decoded) {
+		return encodeBytes(bytes, decoded.encoding);
+	} else if (def.type === 'arrayBuffer') {
+		return bytes.buffer;
+	} else if (def.type === 'dataView') {
+		return new DataView(bytes.buffer);
+	} else if (def.type === 'blob' || def.type === 'file') {
+		return def.type === 'blob' ? new Blob([bytes]) : new File([bytes], 'file');
+	}
+	return typed;
+};
+
+const generateRaw = (parser: Parser<any, any>, random: Random, depth: number): any => {
+	const { def } = parser;
+	const { checks } = def;
+	const has = (check: string) => checks.some((c) => c.check === check);
+	const equal = checks.find((c) => c.check === 'equalTo' || c.check === 'strictlyEqualTo');
+	const deep = depth >= 3;
+	if ((has('optional') || has('default')) && (deep || random() < 0.15)) {
+		return undefined;
+	} else if (has('nullable') && random() < 0.15) {
+		return null;
+	} else if (equal) {
+		return equal.value;
+	}
+	const child = (p: Parser<any, any>) => generateValid(p, random, depth + 1);
+	const count = () => {
+		const [min, max] = boundsOf(checks, true, 0, 3);
+		return deep ? min : randomInt(random, min, max);
+	};
+	if (binaryTypes.some((name) => binaryTypeOf(name) === def.type)) {
+		return generateBinary(def, random);
+	}
+	switch (def.type) {
+		case 'string':
+			return generateString(random, checks);
+		case 'number': {
+			const integer = has('integer');
+			const [min, max] = boundsOf(checks, integer, -1000, 2000, false);
+			if (integer) {
+				return randomInt(random, Math.ceil(min), Math.floor(max));
+			}
+			// Round to cents when that stays inside the bounds, so narrow ranges like moreThan(0).lessThan(0.005) still work.
+			const value = min + random() * (max - min);
+			const rounded = Math.round(value * 100) / 100;
+			return rounded > min && rounded < max ? rounded : value;
+		}
+		case 'boolean':
+			return random() < 0.5;
+		case 'bigInt': {
+			const [min, max] = bigIntBoundsOf(checks);
+			const value = min + BigInt(Math.floor(random() * (Number(max - min) + 1)));
+			return value > max ? max : value;
+		}
+		case 'date': {
+			const [min, max] = dateBoundsOf(checks);
+			return new Date(randomInt(random, min, max));
+		}
+		case 'object':
+		case 'objectLoose': {
+			const shape = def.shape as Shape;
+			const result: any = {};
+			Object.keys(shape).forEach((key) => {
+				const value = child(shape[key]);
+				if (value !== undefined) {
+					result[key] = value;
+				}
+			});
+			return result;
+		}
+		case 'array':
+			return Array.from({ length: count() }, () => child(def.element as Parser<any, any>));
+		case 'set':
+			return new Set(Array.from({ length: count() }, () => child(def.element as Parser<any, any>)));
+		case 'map':
+			return new Map(Array.from({ length: count() }, () => [child(def.key as Parser<any, any>), child(def.element as Parser<any, any>)]));
+		case 'record': {
+			const result: any = {};
+			Array.from({ length: count() }, () => (result[word(random)] = child(def.element as Parser<any, any>)));
+			return result;
+		}
+		case 'tuple':
+			return (def.items as Parser<any, any>[]).map(child);
+		case 'enums':
+			return pick(random, def.values as any[]);
+		case 'or':
+		case 'union':
+		case 'oneOf':
+		case 'discriminatedUnion':
+			return child(pick(random, def.options as Parser<any, any>[]));
+		case 'lazy':
+			return child((def.getter as () => Parser<any, any>)());
+		case 'null':
+			return null;
+		case 'symbol':
+			return Symbol(word(random));
+		case 'func':
+			return () => undefined;
+		case 'regexp':
+			return new RegExp(word(random));
+		case 'unknown':
+			return pick(random, [word(random), randomInt(random, -1000, 1000), random() < 0.5, null]);
+	}
+	throw new Error(`generate() does not support ${def.type}()`);
+};
+
+const generateValid = (parser: Parser<any, any>, random: Random, depth: number): any => {
+	for (let attempt = 0; attempt < 100; attempt++) {
+		const value = generateRaw(parser, random, depth);
+		if (parser.safeParse(value).success) {
+			return value;
+		}
+	}
+	const hint = parser.def.checks.some((c) => c.check === 'pattern') ? ' (pattern() is not followed, use oneOf() or equalTo())' : '';
+	throw new Error(`generate() could not make a valid value for ${parser.def.type}() with checks: ${parser.def.checks.map((c) => c.check).join(', ') || 'none'}${hint}`);
+};
+
+const generate = <T, I>(parser: Parser<T, I>, options: GenerateOptions = {}): I => generateValid(parser, seededRandom(options.seed !== undefined ? options.seed : randomSeed()), 0);
+
+const childOf = (parser: Parser<any, any> | undefined, key: string | number): Parser<any, any> | undefined => {
+	const def = parser && (parser.def.type === 'lazy' && parser.def.getter ? parser.def.getter().def : parser.def);
+	if (def === undefined) {
+		return undefined;
+	} else if (def.shape) {
+		return def.shape[key];
+	} else if (def.items) {
+		return def.items[key as number];
+	}
+	return def.type === 'array' || def.type === 'record' ? def.element : undefined;
+};
+
+const shrinkCandidates = (parser: Parser<any, any> | undefined, v: any): any[] => {
+	if (typeof v === 'number') {
+		return [0, Math.trunc(v / 2), v - Math.sign(v), Math.trunc(v)].filter((candidate) => candidate !== v);
+	} else if (typeof v === 'string') {
+		return ['', v.slice(0, Math.ceil(v.length / 2)), v.slice(0, -1), v.slice(1)].filter((candidate) => candidate !== v);
+	} else if (typeof v === 'bigint') {
+		return v === BigInt(0) ? [] : [BigInt(0), v / BigInt(2)];
+	} else if (typeof v === 'boolean') {
+		return v ? [false] : [];
+	} else if (Array.isArray(v)) {
+		const removed = v.map((_, i) => [...v.slice(0, i), ...v.slice(i + 1)]);
+		const shrunk = v.map((item, i) => shrinkCandidates(childOf(parser, i), item).map((candidate) => Object.assign([...v], { [i]: candidate })));
+		return [[], v.slice(0, Math.floor(v.length / 2)), ...removed].filter((candidate) => candidate.length < v.length).concat(...shrunk);
+	} else if (typeof v === 'object' && v !== null && v.constructor === Object) {
+		const keys = Object.keys(v);
+		const removed = keys.map((key) => {
+			const { [key]: _, ...rest } = v;
+			return rest;
+		});
+		const shrunk = keys.map((key) => shrinkCandidates(childOf(parser, key), v[key]).map((candidate) => ({ ...v, [key]: candidate })));
+		return removed.concat(...shrunk);
+	}
+	return [];
+};
+
+const shrink = (parser: Parser<any, any>, value: any, fails: (v: any) => boolean): any => {
+	let current = value;
+	for (let steps = 0; steps < 1000; steps++) {
+		const next = shrinkCandidates(parser, current).find((candidate) => parser.safeParse(candidate).success && fails(candidate));
+		if (next === undefined) {
+			break;
+		}
+		current = next;
+	}
+	return current;
+};
+
+const describeValue = (v: any): string => (v === undefined ? 'undefined' : JSON.stringify(v, (_, item) => (typeof item === 'bigint' ? `${item}n` : item)));
+
+const forAll = <T, I>(parser: Parser<T, I>, property: (value: T) => boolean | void, options: GenerateOptions & { runs?: number } = {}) => {
+	const seed = options.seed !== undefined ? options.seed : randomSeed();
+	const random = seededRandom(seed);
+	const reasonOf = (v: any): string | undefined => {
+		try {
+			return property(parser.check(v)) === false ? 'returned false' : undefined;
+		} catch (e) {
+			return e instanceof Error ? e.message : String(e);
+		}
+	};
+	for (let run = 1; run <= (options.runs || 100); run++) {
+		const value = generateValid(parser, random, 0);
+		if (reasonOf(value) !== undefined) {
+			const shrunk = shrink(parser, value, (v) => reasonOf(v) !== undefined);
+			throw new Error(`Property failed after ${run} ${run === 1 ? 'run' : 'runs'} (seed ${seed}): ${describeValue(shrunk)} ${reasonOf(shrunk)}`);
+		}
+	}
+};
+
+const show = (v: any): string => (Array.isArray(v) ? v.map(show).join(', ') : v instanceof Date ? v.toISOString() : String(v));
+
+const lengthChecks = ['minLength', 'maxLength', 'length', 'notEmpty', 'empty', 'array', 'tuple'];
+
+const dateChecks = ['minDate', 'maxDate', 'withinLast', 'withinNext'];
+
+const byteChecks = ['minByteLength', 'maxByteLength'];
+
+const deFormats: { [check: string]: string } = {
+	email: 'Ungültige E-Mail-Adresse',
+	creditCard: 'Ungültige Kreditkartennummer',
+	ipv4: 'Ungültige IPv4-Adresse',
+	ipv6: 'Ungültige IPv6-Adresse',
+	domain: 'Ungültiger Domainname',
+	url: 'Ungültige URL',
+	uuid: 'Ungültige UUID',
+	ulid: 'Ungültige ULID',
+	cuid2: 'Ungültige CUID2',
+	semver: 'Ungültige semantische Version',
+	isoDate: 'Ungültiges Datum, erwartet JJJJ-MM-TT',
+	isoTime: 'Ungültige Uhrzeit, erwartet HH:MM oder HH:MM:SS',
+	isoDateTime: 'Ungültiges Datum mit Uhrzeit',
+	hexColor: 'Ungültige Hex-Farbe',
+	base64: 'Ungültiger Base64-Text',
+	base64url: 'Ungültiger Base64url-Text',
+	hex: 'Ungültiger Hex-Text',
+	slug: 'Ungültiger Slug',
+	e164: 'Ungültige Telefonnummer (E.164)',
+	cidr: 'Ungültiger CIDR-Block',
+	mac: 'Ungültige MAC-Adresse'
+};
+
+const de: ErrorMap = (issue) => {
+	const { code, check, expected, received } = issue;
+	if (code === 'invalid_type') {
+		if (check === 'required') {
+			return 'Dieses Feld ist erforderlich';
+		} else if (check === 'prohibited') {
+			return 'Dieses Feld ist nicht erlaubt';
+		}
+		return expected !== undefined ? `Ungültiger Typ: ${show(expected)} erwartet, ${show(received)} erhalten` : `Ungültiger Typ: ${show(received)}`;
+	} else if (code === 'invalid_value') {
+		if (check === 'sameDay') {
+			return `Das Datum muss auf den ${expected} fallen`;
+		} else if (check === 'weekday') {
+			return 'Das Datum muss zwischen Montag und Freitag liegen';
+		} else if (check === 'businessDay') {
+			return 'Das Datum muss ein Arbeitstag sein';
+		} else if (check === 'fileType') {
+			return `Erwartet wird eine Datei vom Typ: ${show(expected)}`;
+		}
+		return check === 'not' || expected === undefined ? 'Ungültiger Wert' : `Ungültiger Wert, erwartet: ${show(expected)}`;
+	} else if (code === 'invalid_date') {
+		return 'Ungültiges Datum';
+	} else if (code === 'invalid_union') {
+		return 'Der Wert passt zu keiner der erlaubten Varianten';
+	} else if (code === 'too_small') {
+		if (check === 'length') {
+			return `Die Länge muss genau ${expected} betragen`;
+		} else if (check === 'byteLength') {
+			return `Die Größe muss genau ${expected} Bytes betragen`;
+		} else if (lengthChecks.includes(check)) {
+			return `Die Länge muss mindestens ${expected} betragen`;
+		} else if (byteChecks.includes(check)) {
+			return `Die Größe muss mindestens ${expected} Bytes betragen`;
+		} else if (check === 'moreThan') {
+			return `Der Wert muss größer als ${show(expected)} sein`;
+		} else if (check === 'after' || check === 'inFuture') {
+			return `Das Datum muss nach ${show(expected)} liegen`;
+		} else if (dateChecks.includes(check)) {
+			return `Das Datum darf nicht vor ${show(expected)} liegen`;
+		}
+		return `Der Wert muss mindestens ${show(expected)} sein`;
+	} else if (code === 'too_big') {
+		if (check === 'length') {
+			return `Die Länge muss genau ${expected} betragen`;
+		} else if (check === 'byteLength') {
+			return `Die Größe muss genau ${expected} Bytes betragen`;
+		} else if (lengthChecks.includes(check)) {
+			return `Die Länge darf höchstens ${expected} betragen`;
+		} else if (byteChecks.includes(check)) {
+			return `Die Größe darf höchstens ${expected} Bytes betragen`;
+		} else if (check === 'lessThan') {
+			return `Der Wert muss kleiner als ${show(expected)} sein`;
+		} else if (check === 'before' || check === 'inPast') {
+			return `Das Datum muss vor ${show(expected)} liegen`;
+		} else if (dateChecks.includes(check)) {
+			return `Das Datum darf nicht nach ${show(expected)} liegen`;
+		}
+		return `Der Wert darf höchstens ${show(expected)} sein`;
+	} else if (code === 'not_in_enum') {
+		return `Erwartet wird einer der Werte: ${show(expected)}`;
+	} else if (code === 'missing_property') {
+		return `Pflichtfeld fehlt: ${expected}`;
+	} else if (code === 'unexpected_property') {
+		return `Unerwartete Eigenschaft: ${show(received)}`;
+	} else if (code === 'pattern_mismatch') {
+		if (Object.prototype.hasOwnProperty.call(deFormats, check)) {
+			return deFormats[check];
+		}
+		return `Der Wert entspricht nicht dem Muster ${expected}`;
+	}
+	return undefined;
+};
+
+const jaFormats: { [check: string]: string } = {
+	email: 'メールアドレスの形式が正しくありません',
+	creditCard: 'クレジットカード番号が正しくありません',
+	ipv4: 'IPv4 アドレスの形式が正しくありません',
+	ipv6: 'IPv6 アドレスの形式が正しくありません',
+	domain: 'ドメイン名の形式が正しくありません',
+	url: 'URL の形式が正しくありません',
+	uuid: 'UUID の形式が正しくありません',
+	ulid: 'ULID の形式が正しくありません',
+	cuid2: 'CUID2 の形式が正しくありません',
+	semver: 'セマンティックバージョンの形式が正しくありません',
+	isoDate: '日付の形式が正しくありません (YYYY-MM-DD)',
+	isoTime: '時刻の形式が正しくありません (HH:MM または HH:MM:SS)',
+	isoDateTime: '日時の形式が正しくありません',
+	hexColor: 'カラーコードの形式が正しくありません',
+	base64: 'Base64 の形式が正しくありません',
+	base64url: 'Base64url の形式が正しくありません',
+	hex: '16 進数の形式が正しくありません',
+	slug: 'スラッグの形式が正しくありません',
+	e164: '電話番号の形式が正しくありません (E.164)',
+	cidr: 'CIDR ブロックの形式が正しくありません',
+	mac: 'MAC アドレスの形式が正しくありません'
+};
+
+const ja: ErrorMap = (issue) => {
+	const { code, check, expected, received } = issue;
+	if (code === 'invalid_type') {
+		if (check === 'required') {
+			return 'この項目は必須です';
+		} else if (check === 'prohibited') {
+			return 'この項目は指定できません';
+		}
+		return expected !== undefined ? `${show(expected)} が必要ですが、${show(received)} が渡されました` : `無効な型です: ${show(received)}`;
+	} else if (code === 'invalid_value') {
+		if (check === 'sameDay') {
+			return `${expected} の日付である必要があります`;
+		} else if (check === 'weekday') {
+			return '平日である必要があります';
+		} else if (check === 'businessDay') {
+			return '営業日である必要があります';
+		} else if (check === 'fileType') {
+			return `ファイル形式は次のいずれかである必要があります: ${show(expected)}`;
+		}
+		return check === 'not' || expected === undefined ? '無効な値です' : `無効な値です。期待される値: ${show(expected)}`;
+	} else if (code === 'invalid_date') {
+		return '無効な日付です';
+	} else if (code === 'invalid_union') {
+		return 'どの候補にも一致しません';
+	} else if (code === 'too_small') {
+		if (check === 'length') {
+			return `長さは ${expected} である必要があります`;
+		} else if (check === 'byteLength') {
+			return `サイズは ${expected} バイトである必要があります`;
+		} else if (lengthChecks.includes(check)) {
+			return `長さは ${expected} 以上である必要があります`;
+		} else if (byteChecks.includes(check)) {
+			return `サイズは ${expected} バイト以上である必要があります`;
+		} else if (check === 'moreThan') {
+			return `${show(expected)} より大きい値である必要があります`;
+		} else if (check === 'after' || check === 'inFuture') {
+			return `${show(expected)} より後の日付である必要があります`;
+		} else if (dateChecks.includes(check)) {
+			return `${show(expected)} 以降の日付である必要があります`;
+		}
+		return `${show(expected)} 以上である必要があります`;
+	} else if (code === 'too_big') {
+		if (check === 'length') {
+			return `長さは ${expected} である必要があります`;
+		} else if (check === 'byteLength') {
+			return `サイズは ${expected} バイトである必要があります`;
+		} else if (lengthChecks.includes(check)) {
+			return `長さは ${expected} 以下である必要があります`;
+		} else if (byteChecks.includes(check)) {
+			return `サイズは ${expected} バイト以下である必要があります`;
+		} else if (check === 'lessThan') {
+			return `${show(expected)} より小さい値である必要があります`;
+		} else if (check === 'before' || check === 'inPast') {
+			return `${show(expected)} より前の日付である必要があります`;
+		} else if (dateChecks.includes(check)) {
+			return `${show(expected)} 以前の日付である必要があります`;
+		}
+		return `${show(expected)} 以下である必要があります`;
+	} else if (code === 'not_in_enum') {
+		return `次のいずれかである必要があります: ${show(expected)}`;
+	} else if (code === 'missing_property') {
+		return `必須項目がありません: ${expected}`;
+	} else if (code === 'unexpected_property') {
+		return `不明な項目があります: ${show(received)}`;
+	} else if (code === 'pattern_mismatch') {
+		if (Object.prototype.hasOwnProperty.call(jaFormats, check)) {
+			return jaFormats[check];
+		}
+		return `パターン ${expected} に一致しません`;
+	}
+	return undefined;
+};
+
+const locales = { de, ja };
+
+const env = <S extends Shape>(schema: S, source: { [key: string]: string | undefined } = (globalThis as any).process ? (globalThis as any).process.env : {}): Infer<ObjectParser<S>> => {
+	const values: { [key: string]: string | undefined } = {};
+	const shape: Shape = {};
+	Object.keys(schema).forEach((key) => {
+		const parser = schema[key];
+		const last = parser.def.checks.filter(({ check }) => ['optional', 'default', 'prohibited', 'required'].includes(check)).pop();
+		values[key] = source[key] === '' ? undefined : source[key];
+		shape[key] = new Parser(
+			(v, options) => {
+				if (v !== undefined) {
+					return parser.check(v, options);
+				}
+				assert(last !== undefined && last.check !== 'required', 'Missing environment variable', { check: 'env', code: 'missing_property', expected: key });
+				return last.check === 'optional' ? undefined : parser.check(v, options);
+			},
+			'',
+			parser.def
+		);
+	});
+	try {
+		return object(shape).check(values, { abortEarly: false, [defaultWhenMissing]: true } as ParseOptions) as Infer<ObjectParser<S>>;
+	} catch (e) {
+		if (!(e instanceof PRSEError)) {
+			throw e;
+		}
+		const lines = e.issues.map((issue) => `\n  ${formatPath(issue.path)}: ${issue.message}`);
+		throw new PRSEError(`Invalid environment variables:${lines.join('')}`, e.issues[0], e.issues);
+	}
+};
+
+type RequestFormats = { body?: Parser<any, any>; query?: Parser<any, any>; params?: Parser<any, any>; headers?: Parser<any, any> };
+
+type ValidatedRequest<F extends RequestFormats> = { [K in keyof F]: Infer<F[K]> };
+
+type RequestField = keyof RequestFormats;
+
+interface RequestErrorBody {
+	message: string;
+	issues: PRSEIssue[];
+}
+
+// Formats for headers and query strings usually list only some of the keys, so their parsed values are merged into the original object and the other keys (like cookies or authorization) are kept.
+const replaceFields = (target: any, data: { [key: string]: any }, fields: string[]) => {
+	fields.forEach((field) => {
+		const merge = (field === 'headers' || field === 'query') && typeof data[field] === 'object' && data[field] !== null;
+		Object.defineProperty(target, field, { value: merge ? { ...target[field], ...data[field] } : data[field], writable: true, configurable: true, enumerable: true });
+	});
+};
+
+const validateRequest = <F extends RequestFormats>(formats: F, options: ParseOptions & { status?: number } = {}) => {
+	const fields = (Object.keys(formats) as RequestField[]).filter((field) => formats[field] !== undefined);
+	const format = object(formats as Shape);
+	const status = options.status || 400;
+
+	const checkRequest = (request: { [key: string]: any }): Promise<ValidatedRequest<F>> => {
+		const values: { [key: string]: any } = {};
+		fields.forEach((field) => (values[field] = request[field]));
+		return format.checkAsync(values, { abortEarly: false, ...options }) as Promise<ValidatedRequest<F>>;
+	};
+
+	const onInvalid = (respond: (body: RequestErrorBody) => any) => (e: any) => {
+		if (!(e instanceof PRSEError)) {
+			throw e;
+		}
+		respond({ message: e.message, issues: e.issues });
+	};
+
+	const validate = (request: { [key: string]: any }): Promise<SafeParseResult<ValidatedRequest<F>>> =>
+		checkRequest(request).then(
+			(data): SafeParseResult<ValidatedRequest<F>> => ({ success: true, data }),
+			(e) => {
+				if (e instanceof PRSEError) {
+					return { success: false, error: e };
+				}
+				throw e;
+			}
+		);
+
+	const express = (req: any, res: { status: (code: number) => { json: (body: RequestErrorBody) => any } }, next: (error?: any) => void): Promise<void> =>
+		checkRequest(req)
+			.then(
+				(data) => {
+					replaceFields(req, data, fields);
+					next();
+				},
+				onInvalid((body) => res.status(status).json(body))
+			)
+			.catch(next);
+
+	const koa = (ctx: any, next: () => Promise<any>): Promise<any> =>
+		checkRequest({ body: ctx.request.body, query: ctx.request.query, params: ctx.params, headers: ctx.request.headers }).then(
+			(data) => {
+				replaceFields(
+					ctx.request,
+					data,
+					fields.filter((field) => field !== 'params')
+				);
+				replaceFields(
+					ctx,
+					data,
+					fields.filter((field) => field === 'params')
+				);
+				return next();
+			},
+			onInvalid((body) => {
+				ctx.status = status;
+				ctx.body = body;
+			})
+		);
+
+	const fastify = (request: any, reply: { code: (code: number) => { send: (body: RequestErrorBody) => any } }, done: (error?: any) => void) => {
+		checkRequest(request)
+			.then(
+				(data) => {
+					replaceFields(request, data, fields);
+					done();
+				},
+				onInvalid((body) => reply.code(status).send(body))
+			)
+			.catch(done);
+	};
+
+	return { validate, express, koa, fastify };
+};
+
+const p = {
+	string,
+	number,
+	boolean,
+	unknown,
+	object,
+	objectLoose,
 	array,
 	record,
 	set,
 	map,
 	tuple,
 	enums,
+	discriminatedUnion,
+	lazy,
+	preprocess,
 	fail,
 	date,
 	instance,
 	func,
-	uint8Array,
 	symbol,
 	regexp,
 	int8Array,
-	bigInt
+	uint8Array,
+	uint8ClampedArray,
+	int16Array,
+	uint16Array,
+	int32Array,
+	uint32Array,
+	float32Array,
+	float64Array,
+	bigInt64Array,
+	bigUint64Array,
+	arrayBuffer,
+	dataView,
+	blob,
+	file,
+	bigInt,
+	coerce,
+	decode,
+	toJSONSchema,
+	toOpenAPI,
+	toTypeScript,
+	fromJSONSchema,
+	setErrorMap,
+	setClock,
+	locales,
+	compile,
+	generate,
+	forAll,
+	env,
+	validateRequest
 };
 
 interface ErrorInfo {
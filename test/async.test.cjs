@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { object, array, string, number } = p;
+
+const delay = (value) => new Promise((resolve) => setTimeout(() => resolve(value), 1));
+
+test('customAsync and mapAsync run with checkAsync', async () => {
+	const format = object({
+		username: string().customAsync(async (v) => delay(v !== 'taken'), 'Username taken'),
+		length: string().mapAsync(async (v) => delay(v.length))
+	});
+	assert.deepEqual(await format.checkAsync({ username: 'axorax', length: 'abc' }), { username: 'axorax', length: 3 });
+	await assert.rejects(format.checkAsync({ username: 'taken', length: '' }), { message: 'Username taken', path: ['username'] });
+});
+
+test('refineAsync is an alias of customAsync', async () => {
+	const even = number().refineAsync(async (v) => v % 2 === 0, 'Expected an even number');
+	assert.equal(await even.checkAsync(2), 2);
+	await assert.rejects(even.checkAsync(1), { message: 'Expected an even number' });
+});
+
+test('async issues are collected with abortEarly: false', async () => {
+	const format = array(number().customAsync(async (v) => delay(v > 0), 'Expected a positive number'));
+	const result = await format.safeParseAsync([1, -1, -2], { abortEarly: false });
+	assert.equal(result.success, false);
+	assert.deepEqual(
+		result.error.issues.map((issue) => issue.path),
+		[[1], [2]]
+	);
+});
+
+test('sync methods throw on async checks', () => {
+	const parser = string().customAsync(async () => true);
+	assert.throws(() => parser.check('a'), /can only be used with checkAsync/);
+});
+
+test('runAsync resolves to a boolean and calls the callbacks', async () => {
+	const parser = number().customAsync(async (v) => v > 0);
+	let succeeded = false;
+	assert.equal(await parser.runAsync(1, () => (succeeded = true)), true);
+	assert.equal(succeeded, true);
+	assert.equal(await parser.runAsync(-1, null, () => {}), false);
+});
@@ -0,0 +1,90 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { arrayBuffer, bigInt64Array, blob, dataView, decode, float32Array, object, string, uint16Array, uint8Array } = p;
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const pdf = () => new TextEncoder().encode('%PDF-1.7');
+
+const issueOf = (fn) => {
+	try {
+		fn();
+	} catch (e) {
+		assert.ok(e instanceof PRSEError);
+		return e.issues[0];
+	}
+	assert.fail('Expected a PRSEError');
+};
+
+test('typed array formats check the array type', () => {
+	const value = new Uint16Array([1, 2]);
+	assert.equal(uint16Array().check(value), value);
+	assert.equal(issueOf(() => uint16Array().check(new Uint8Array(4))).code, 'invalid_type');
+	assert.equal(issueOf(() => uint16Array().check([1, 2])).code, 'invalid_type');
+});
+
+test('elementRange() points the issue at the item', () => {
+	assert.deepEqual(
+		issueOf(() =>
+			float32Array()
+				.elementRange(-1, 1)
+				.check(new Float32Array([0.5, 2]))
+		).path,
+		[1]
+	);
+	assert.deepEqual(
+		issueOf(() =>
+			bigInt64Array()
+				.elementRange(0n, 5n)
+				.check(new BigInt64Array([1n, 9n]))
+		).path,
+		[1]
+	);
+});
+
+test('byte length checks work for buffers and views', () => {
+	assert.equal(arrayBuffer().byteLength(4).safeParse(new ArrayBuffer(4)).success, true);
+	assert.equal(issueOf(() => arrayBuffer().byteLength(4).check(new ArrayBuffer(3))).code, 'too_small');
+	assert.equal(
+		dataView()
+			.minByteLength(2)
+			.safeParse(new DataView(new ArrayBuffer(1))).success,
+		false
+	);
+	assert.equal(uint16Array().maxByteLength(2).safeParse(new Uint16Array(2)).success, false);
+});
+
+test('fileType() checks file signatures', () => {
+	assert.equal(uint8Array().fileType(['png', 'jpeg']).safeParse(new Uint8Array(PNG)).success, true);
+	assert.equal(
+		uint8Array()
+			.fileType(['png', 'jpeg'])
+			.safeParse(new Uint8Array([0xff, 0xd8, 0xff, 0xe0])).success,
+		true
+	);
+	assert.equal(
+		issueOf(() =>
+			uint8Array()
+				.fileType(['png'])
+				.check(new Uint8Array([1, 2, 3]))
+		).code,
+		'invalid_value'
+	);
+});
+
+test('fileType() on a Blob needs checkAsync()', async () => {
+	const upload = new Blob([pdf()]);
+	assert.equal(await blob().fileType(['pdf']).checkAsync(upload), upload);
+	await assert.rejects(blob().fileType(['png']).checkAsync(upload), PRSEError);
+	assert.throws(() => blob().fileType(['pdf']).check(upload), /checkAsync/);
+});
+
+test('decode.base64() and decode.hex() turn strings into checked bytes', () => {
+	const upload = object({ name: string(), content: decode.base64().maxByteLength(16).fileType(['pdf']) });
+	assert.deepEqual(upload.check({ name: 'cv.pdf', content: 'JVBERi0xLjc=' }).content, pdf());
+	assert.equal(issueOf(() => decode.base64().check('JVB*')).code, 'pattern_mismatch');
+	assert.deepEqual(decode.hex().check('0a0B'), new Uint8Array([10, 11]));
+	assert.equal(decode.hex().safeParse('0a0').success, false);
+	assert.deepEqual(decode.base64({ url: true }).check('_-8'), new Uint8Array([0xff, 0xef]));
+});
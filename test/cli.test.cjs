@@ -0,0 +1,86 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync, spawnSync } = require('child_process');
+
+const cli = path.resolve(__dirname, '../cli.cjs');
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prse-cli-'));
+const fixture = path.join(dir, 'api.cjs');
+
+fs.writeFileSync(
+	fixture,
+	`const { p } = require(${JSON.stringify(path.resolve(__dirname, '../prse.cjs'))});
+module.exports = {
+	note: p.object({ 'a: b': p.string(), '#tag': p.number().optional(), plain: p.string().describe('Time: 10:30 # not a comment\\nsecond line') }),
+	status: p.enums(['on', 'a#b', '- item', '123', 'Time: 10:30 # not a comment'])
+};
+`
+);
+
+const run = (...args) => execFileSync(process.execPath, [cli, ...args], { encoding: 'utf8' });
+
+test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('types prints TypeScript declarations', () => {
+	assert.equal(run('types', fixture), ['export type Note = {', '\t"a: b": string;', '\t"#tag"?: number | undefined;', '\t/**', '\t * Time: 10:30 # not a comment', '\t * second line', '\t */', '\tplain: string;', '};', '', 'export type Status = "on" | "a#b" | "- item" | "123" | "Time: 10:30 # not a comment";', ''].join('\n'));
+});
+
+test('openapi quotes YAML keys and strings with special characters', () => {
+	assert.equal(
+		run('openapi', fixture),
+		[
+			'openapi: "3.1.0"',
+			'components:',
+			'  schemas:',
+			'    Note:',
+			'      type: object',
+			'      properties:',
+			'        "a: b":',
+			'          type: string',
+			'        "#tag":',
+			'          type:',
+			'            - number',
+			'            - "null"',
+			'        plain:',
+			'          type: string',
+			'          description: "Time: 10:30 # not a comment\\nsecond line"',
+			'      required:',
+			'        - "a: b"',
+			'        - plain',
+			'    Status:',
+			'      enum:',
+			'        - "on"',
+			'        - a#b',
+			'        - "- item"',
+			'        - "123"',
+			'        - "Time: 10:30 # not a comment"',
+			''
+		].join('\n')
+	);
+});
+
+test('openapi --json and --out write JSON to a file', () => {
+	const out = path.join(dir, 'openapi.json');
+	assert.equal(run('openapi', fixture, '--json', '--out', out), '');
+	const document = JSON.parse(fs.readFileSync(out, 'utf8'));
+	assert.deepEqual(Object.keys(document.components.schemas), ['Note', 'Status']);
+	assert.deepEqual(document.components.schemas.Note.required, ['a: b', 'plain']);
+	assert.equal(document.components.schemas.Note.properties.plain.description, 'Time: 10:30 # not a comment\nsecond line');
+});
+
+test('prints the usage and exits with 1 for unknown commands', () => {
+	const result = spawnSync(process.execPath, [cli, 'nope', fixture], { encoding: 'utf8' });
+	assert.equal(result.status, 1);
+	assert.match(result.stderr, /^Usage: prse <types\|openapi>/);
+});
+
+test('the prepare script keeps the built files when packing or publishing', () => {
+	const build = path.resolve(__dirname, '../build.cjs');
+	['pack', 'publish'].forEach((command) => {
+		const result = spawnSync(process.execPath, [build, '-test', '-prepare'], { cwd: path.dirname(build), encoding: 'utf8', env: { ...process.env, npm_command: command } });
+		assert.equal(result.status, 0);
+		assert.equal(result.stdout, '');
+	});
+});
@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { coerce } = p;
+
+const issueOf = (fn) => {
+	try {
+		fn();
+	} catch (e) {
+		assert.ok(e instanceof PRSEError);
+		return e.issues[0];
+	}
+	assert.fail('Expected a PRSEError');
+};
+
+test('coerce.number() converts whole numeric strings only', () => {
+	assert.equal(coerce.number().check('12'), 12);
+	assert.equal(coerce.number().check('-1.5'), -1.5);
+	assert.equal(issueOf(() => coerce.number().check('12abc')).message, 'Cannot convert "12abc" to a number');
+	assert.equal(issueOf(() => coerce.number().check('')).code, 'invalid_type');
+	assert.equal(issueOf(() => coerce.number().check('1e400')).message, 'Cannot convert "1e400" to a number');
+	assert.equal(issueOf(() => coerce.number().check('-1e400')).code, 'invalid_type');
+});
+
+test('coerce.boolean() accepts true/false, 1/0 and yes/no', () => {
+	['true', '1', 'yes'].forEach((v) => assert.equal(coerce.boolean().check(v), true));
+	['false', '0', 'no'].forEach((v) => assert.equal(coerce.boolean().check(v), false));
+	assert.equal(issueOf(() => coerce.boolean().check('maybe')).message, 'Cannot convert "maybe" to a boolean');
+});
+
+test('coerce.bigInt() keeps precision and rejects fractions', () => {
+	assert.equal(coerce.bigInt().check('9007199254740993'), 9007199254740993n);
+	assert.equal(issueOf(() => coerce.bigInt().check('1.5')).code, 'invalid_type');
+});
+
+test('coerce.date() rejects invalid dates', () => {
+	assert.equal(coerce.date().check('2024-01-02').toISOString(), '2024-01-02T00:00:00.000Z');
+	assert.equal(issueOf(() => coerce.date().check('nope')).code, 'invalid_date');
+});
+
+test('coerce.array() splits on commas and checks each item', () => {
+	assert.deepEqual(coerce.array(coerce.number()).check('1,2,3'), [1, 2, 3]);
+	assert.deepEqual(issueOf(() => coerce.array(coerce.number()).check('1,x')).path, [1]);
+});
+
+test('coerced values still go through the chained checks', () => {
+	assert.equal(issueOf(() => coerce.number().range(1, 5).check('9')).code, 'too_big');
+});
@@ -0,0 +1,66 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { array, compile, discriminatedUnion, enums, number, object, objectLoose, record, string, tuple, unknown } = p;
+
+const user = object({
+	name: string().trim().minLength(2),
+	age: number().integer().range(0, 150).optional(),
+	email: string().email(),
+	role: enums(['admin', 'user']).default('user'),
+	tags: array(string().pattern(/^[a-z]+$/)),
+	point: tuple([number(), number()]),
+	scores: record(number()),
+	extra: objectLoose({ id: number() }).optional()
+});
+
+const samples = [
+	{ name: ' Ann ', email: 'a@b.co', tags: ['x'], point: [1, 2], scores: { a: 1 } },
+	{ name: 'Bob', age: 30, email: 'b@c.de', role: 'admin', tags: [], point: [0, 0], scores: {}, extra: { id: 1, more: true }, unknown: 1 },
+	{ name: 'A', email: 'a@b.co', tags: [], point: [1, 2], scores: {} },
+	{ name: 'Ann', age: 1.5, email: 'a@b.co', tags: [], point: [1, 2], scores: {} },
+	{ name: 'Ann', email: 'nope', tags: ['X'], point: [1], scores: { a: 'x' } },
+	{ name: 'Ann', email: 'a@b.co', role: 'root', tags: [], point: [1, 2], scores: {} },
+	null,
+	'text'
+];
+
+const outcome = (parser, v) => {
+	try {
+		return { data: parser.check(v) };
+	} catch (e) {
+		assert.ok(e instanceof PRSEError);
+		return { message: e.message, issues: e.issues };
+	}
+};
+
+test('compiled formats give the same results and errors as the original', () => {
+	const fast = compile(user);
+	samples.forEach((sample) => assert.deepEqual(outcome(fast, sample), outcome(user, sample)));
+});
+
+test('compiled discriminated unions pick the same branch', () => {
+	const event = discriminatedUnion('type', { a: object({ type: enums(['a']), n: number() }), b: object({ type: enums(['b']), s: string() }) });
+	const fast = compile(event);
+	[{ type: 'a', n: 1 }, { type: 'b', s: 'x' }, { type: 'b', s: 1 }, { type: 'c' }].forEach((sample) => assert.deepEqual(outcome(fast, sample), outcome(event, sample)));
+});
+
+test('compiled formats fall back for custom checks and collected issues', () => {
+	const even = compile(number().custom((v) => v % 2 === 0, 'Must be even'));
+	assert.equal(even.check(2), 2);
+	assert.equal(outcome(even, 3).message, 'Must be even');
+	const fast = compile(user);
+	assert.equal(fast.safeParse(samples[4], { abortEarly: false }).error.issues.length, user.safeParse(samples[4], { abortEarly: false }).error.issues.length);
+});
+
+test('compiled formats keep a __proto__ key as a property like the original', () => {
+	const input = JSON.parse('{"id":1,"__proto__":{"isAdmin":true}}');
+	[object({ id: number() }).passthrough(), object({ id: number() }).catchall(unknown()), objectLoose({ id: number() }), record(unknown())].forEach((parser) => {
+		const result = compile(parser).check(input);
+		assert.deepEqual(result, parser.check(input));
+		assert.equal(Object.getPrototypeOf(result), Object.prototype);
+		assert.equal(result.isAdmin, undefined);
+		assert.deepEqual(Object.keys(result), ['id', '__proto__']);
+	});
+});
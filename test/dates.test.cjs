@@ -0,0 +1,40 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { date, generate } = p;
+
+const clock = () => new Date('2024-06-15T12:00:00Z');
+
+test('sameDay() treats date-only strings as calendar days in a negative-offset zone', () => {
+	const parser = date().sameDay('2024-03-10', { timeZone: 'America/Los_Angeles' });
+	assert.equal(parser.safeParse('2024-03-10T08:00:00Z').success, true);
+	assert.equal(parser.safeParse('2024-03-11T06:59:00Z').success, true);
+	assert.equal(parser.safeParse('2024-03-10T07:59:00Z').success, false);
+	assert.equal(parser.safeParse('2024-03-11T08:00:00Z').success, false);
+	assert.equal(generate(parser, { seed: 1 }).toISOString().slice(0, 10), '2024-03-10');
+});
+
+test('sameDay() moves timestamps into the time zone', () => {
+	const parser = date().sameDay('2024-03-10T02:00:00Z', { timeZone: 'America/Los_Angeles' });
+	assert.equal(parser.safeParse('2024-03-09T20:00:00Z').success, true);
+	assert.equal(parser.safeParse('2024-03-10T12:00:00Z').success, false);
+});
+
+test('businessDay() skips weekends and holidays', () => {
+	const parser = date().businessDay({ timeZone: 'America/New_York', holidays: ['2024-07-04'] });
+	assert.equal(parser.safeParse('2024-07-05T15:00:00Z').success, true);
+	assert.equal(parser.safeParse('2024-07-04T15:00:00Z').success, false);
+	assert.equal(parser.safeParse('2024-07-06T15:00:00Z').success, false);
+});
+
+test('relative windows use the injected clock', () => {
+	assert.equal(date().inPast().safeParse('2024-06-14T00:00:00Z', { clock }).success, true);
+	assert.equal(date().inFuture().safeParse('2024-06-14T00:00:00Z', { clock }).success, false);
+	assert.equal(date().withinLast({ days: 30 }).safeParse('2024-05-01T00:00:00Z', { clock }).success, false);
+});
+
+test('date({ iso: true }) rejects strings that are not ISO dates', () => {
+	assert.equal(date({ iso: true }).safeParse('1').success, false);
+	assert.equal(date({ iso: true }).check('2024-01-02').toISOString(), '2024-01-02T00:00:00.000Z');
+});
@@ -0,0 +1,31 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { object, objectLoose, string, number } = p;
+
+test('default() replaces missing and invalid values', () => {
+	assert.equal(number().default(0).check(undefined), 0);
+	assert.equal(number().default(0).check('x'), 0);
+	assert.equal(number().default(0).check(5), 5);
+});
+
+test('default() rethrows errors that are not validation errors', () => {
+	const parser = number()
+		.custom(() => {
+			throw new TypeError('bug');
+		})
+		.default(0);
+	assert.throws(() => parser.check(1), TypeError);
+	assert.throws(() => p.compile(parser).check(1), TypeError);
+});
+
+test('optional and default keys may be missing from objects', () => {
+	const format = object({ name: string(), age: number().optional(), role: string().default('user') });
+	assert.deepEqual(format.check({ name: 'a' }), { name: 'a', role: 'user' });
+	assert.throws(() => format.check({}), { code: 'missing_property' });
+});
+
+test('objectLoose() accepts missing keys', () => {
+	assert.deepEqual(objectLoose({ name: string(), age: number() }).check({ age: 1 }), { age: 1 });
+});
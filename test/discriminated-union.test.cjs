@@ -0,0 +1,48 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { discriminatedUnion, enums, number, object, string } = p;
+
+const event = discriminatedUnion('type', {
+	created: object({ type: enums(['created']), id: number() }),
+	deleted: object({ type: enums(['deleted']), id: string() })
+});
+
+const issueOf = (fn) => {
+	try {
+		fn();
+	} catch (e) {
+		assert.ok(e instanceof PRSEError);
+		return e.issues[0];
+	}
+	assert.fail('Expected a PRSEError');
+};
+
+test('discriminatedUnion picks the branch by tag', () => {
+	assert.deepEqual(event.check({ type: 'created', id: 1 }), { type: 'created', id: 1 });
+	assert.deepEqual(event.check({ type: 'deleted', id: 'a' }), { type: 'deleted', id: 'a' });
+});
+
+test('discriminatedUnion reports unknown and missing tags', () => {
+	assert.deepEqual(
+		issueOf(() => event.check({ type: 'x' })),
+		{
+			check: 'discriminatedUnion',
+			code: 'not_in_enum',
+			expected: ['created', 'deleted'],
+			received: 'x',
+			path: ['type'],
+			message: "Unknown type 'x', expected created|deleted"
+		}
+	);
+	assert.equal(issueOf(() => event.check({})).message, 'Missing type, expected created|deleted');
+	assert.equal(issueOf(() => event.check(5)).code, 'invalid_type');
+});
+
+test('discriminatedUnion reports the error from the selected branch only', () => {
+	assert.deepEqual(
+		issueOf(() => event.check({ type: 'deleted', id: 1 })),
+		{ check: 'string', code: 'invalid_type', expected: 'string', received: 'number', path: ['id'], message: 'Expected a string' }
+	);
+});
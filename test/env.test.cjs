@@ -0,0 +1,51 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { coerce, enums, env, string } = p;
+
+const format = {
+	PORT: coerce.number().integer().default(3000),
+	DEBUG: coerce.boolean().default(false),
+	NODE_ENV: enums(['development', 'production']),
+	DATABASE_URL: string().url({ protocols: ['postgres'] }),
+	API_KEY: string().minLength(32).secret(),
+	SENTRY_DSN: string().optional()
+};
+
+const errorOf = (fn) => {
+	try {
+		fn();
+	} catch (e) {
+		assert.ok(e instanceof PRSEError);
+		return e;
+	}
+	assert.fail('Expected a PRSEError');
+};
+
+test('env() coerces variables and applies defaults', () => {
+	const config = env(format, { NODE_ENV: 'production', DATABASE_URL: 'postgres://db/app', API_KEY: 'k'.repeat(32), DEBUG: 'yes', PORT: '', OTHER: 'x' });
+	assert.deepEqual({ ...config }, { PORT: 3000, DEBUG: true, NODE_ENV: 'production', DATABASE_URL: 'postgres://db/app', API_KEY: 'k'.repeat(32), SENTRY_DSN: undefined });
+});
+
+test('env() reports every missing or invalid variable', () => {
+	const error = errorOf(() => env(format, { NODE_ENV: 'staging', API_KEY: 'short', PORT: 'abc' }));
+	assert.equal(error.message, ['Invalid environment variables:', '  PORT: Cannot convert "abc" to a number', '  NODE_ENV: Expected one of: development, production', '  DATABASE_URL: Missing environment variable', '  API_KEY: String must be at least 32 characters long'].join('\n'));
+	assert.deepEqual(
+		error.issues.map((issue) => [issue.path, issue.code]),
+		[
+			[['PORT'], 'invalid_type'],
+			[['NODE_ENV'], 'not_in_enum'],
+			[['DATABASE_URL'], 'missing_property'],
+			[['API_KEY'], 'too_small']
+		]
+	);
+	assert.equal(error.issues[3].received, '***');
+});
+
+test('env() finds defaults and optional that are not the last check', () => {
+	const config = env({ PORT: coerce.number().default(3000).integer(), NAME: string().optional().describe('Service name') }, {});
+	assert.equal(config.PORT, 3000);
+	assert.equal(config.NAME, undefined);
+	assert.equal(errorOf(() => env({ PORT: coerce.number().default(3000).integer() }, { PORT: 'abc' })).issues[0].path[0], 'PORT');
+});
@@ -0,0 +1,65 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { locales, number, object, setErrorMap, string } = p;
+
+const messageOf = (fn) => {
+	try {
+		fn();
+	} catch (e) {
+		assert.ok(e instanceof PRSEError);
+		return e.issues[0].message;
+	}
+	assert.fail('Expected a PRSEError');
+};
+
+test.afterEach(() => setErrorMap(undefined));
+
+test('setErrorMap() changes the messages of every check', () => {
+	setErrorMap(locales.de);
+	assert.equal(
+		messageOf(() => string().minLength(3).check('ab')),
+		'Die Länge muss mindestens 3 betragen'
+	);
+	assert.equal(
+		messageOf(() => object({ a: number() }).check({})),
+		'Pflichtfeld fehlt: a'
+	);
+	setErrorMap(undefined);
+	assert.equal(
+		messageOf(() => string().minLength(3).check('ab')),
+		'String must be at least 3 characters long'
+	);
+});
+
+test('the errorMap option wins over setErrorMap()', () => {
+	setErrorMap(locales.de);
+	assert.equal(
+		messageOf(() => string().minLength(3).check('ab', { errorMap: locales.ja })),
+		'長さは 3 以上である必要があります'
+	);
+});
+
+test('error maps get the issue code, parameters and path', () => {
+	const errorMap = (issue) => `${issue.code}:${issue.expected}:${issue.path.join('.')}`;
+	assert.equal(
+		messageOf(() => object({ a: string().minLength(3) }).check({ a: 'x' }, { errorMap })),
+		'too_small:3:a'
+	);
+});
+
+test('error maps can keep the English message and never replace withMessage()', () => {
+	assert.equal(
+		messageOf(() =>
+			string()
+				.minLength(3)
+				.check('ab', { errorMap: () => undefined })
+		),
+		'String must be at least 3 characters long'
+	);
+	assert.equal(
+		messageOf(() => string().minLength(3).withMessage('Too short').check('ab', { errorMap: locales.ja })),
+		'Too short'
+	);
+});
@@ -0,0 +1,41 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { object, string, number, enums } = p;
+
+const errorOf = (fn) => {
+	try {
+		fn();
+	} catch (e) {
+		return e;
+	}
+	assert.fail('expected an error');
+};
+
+test('issues have a code, expected and received', () => {
+	const e = errorOf(() => number().check('1'));
+	assert.ok(e instanceof PRSEError);
+	assert.equal(e.code, 'invalid_type');
+	assert.equal(e.issues[0].expected, 'number');
+	assert.equal(e.issues[0].received, 'string');
+	assert.deepEqual(errorOf(() => string().minLength(3).check('ab')).issues[0], { check: 'minLength', code: 'too_small', expected: 3, received: 2, path: [], message: 'String must be at least 3 characters long' });
+	assert.equal(errorOf(() => enums(['a']).check('b')).code, 'not_in_enum');
+	assert.equal(errorOf(() => object({ a: string() }).strict().check({ a: '', b: 1 })).code, 'unexpected_property');
+});
+
+test('or() keeps the issues of every alternative', () => {
+	const e = errorOf(() => string().or(number()).check(true));
+	assert.equal(e.code, 'invalid_union');
+	assert.deepEqual(
+		e.issues[0].issues.map((issue) => issue.check),
+		['string', 'number']
+	);
+});
+
+test('JSON.stringify includes every detail', () => {
+	const json = JSON.parse(JSON.stringify(errorOf(() => object({ a: number() }).check({ a: 'x' }))));
+	assert.equal(json.code, 'invalid_type');
+	assert.deepEqual(json.path, ['a']);
+	assert.equal(json.issues.length, 1);
+});
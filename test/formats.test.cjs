@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { string } = p;
+
+const vectors = {
+	email: [string().email(), ['a@b.co', 'first.last+tag@example.com'], ['a@b', 'a b@c.com', '@example.com']],
+	creditCard: [string().creditCard(), ['4111111111111111', '4111-1111-1111-1111', '378282246310005'], ['4111111111111112', '1234', '4111 1111 1111 111a']],
+	ipv4: [string().ipv4(), ['127.0.0.1', '255.255.255.255', '0.0.0.0'], ['999.999.999.999', '1.2.3', '01.2.3.4', '1.2.3.4.5']],
+	ipv6: [string().ipv6(), ['::1', '::', '2001:db8::8a2e:370:7334', '::ffff:192.0.2.1'], ['2001:db8::1::1', '12345::', 'g::1', '1:2:3:4:5:6:7:8:9']],
+	domain: [string().domain(), ['example.com', 'sub.example.photography', 'xn--bcher-kva.example'], ['localhost', '-a.com', 'a..com', 'a.c']],
+	url: [string().url(), ['https://example.com', 'http://localhost:3000/a?b=c#d', 'HTTPS://Example.com'], ['javascript:alert(1)', 'data:text/html,x', 'ftp://example.com', 'https://', 'example.com', 'http:/a.com', 'http:a.com', 'http:\\\\a.com', ' http://a.com']],
+	urlProtocols: [string().url({ protocols: ['postgres', 'mailto:'] }), ['postgres://user@db/app', 'mailto:a@b.co'], ['https://example.com', 'javascript:alert(1)']],
+	uuid: [string().uuid(), ['123e4567-e89b-12d3-a456-426614174000', '00000000-0000-0000-0000-000000000000', 'ffffffff-ffff-ffff-ffff-ffffffffffff', 'FFFFFFFF-FFFF-FFFF-FFFF-FFFFFFFFFFFF'], ['123e4567e89b12d3a456426614174000', '123e4567-e89b-12d3-a456-42661417400g']],
+	uuid4: [string().uuid(4), ['9b2f3c1e-8d4a-4f6b-9c2d-1e3f5a7b9c0d'], ['123e4567-e89b-12d3-a456-426614174000', '9b2f3c1e-8d4a-4f6b-7c2d-1e3f5a7b9c0d']],
+	ulid: [string().ulid(), ['01ARZ3NDEKTSV4RRFFQ69G5FAV'], ['01ARZ3NDEKTSV4RRFFQ69G5FA', '01ARZ3NDEKTSV4RRFFQ69G5FAI', '81ARZ3NDEKTSV4RRFFQ69G5FAV']],
+	cuid2: [string().cuid2(), ['tz4a98xxat96iws9zmbrgj3a', 'clh3am8qk0000qwer'], ['Tz4a98xxat96iws9zmbrgj3a', '1z4a98xxat96iws9zmbrgj3a', 'tz4a-98xx']],
+	semver: [string().semver(), ['1.0.0', '1.2.3-alpha.1+build.5', '0.0.0-0'], ['1.0', '01.0.0', '1.0.0-', 'v1.0.0']],
+	isoDate: [string().isoDate(), ['2024-02-29', '1999-12-31'], ['2023-02-29', '2024-13-01', '2024-1-01']],
+	isoTime: [string().isoTime(), ['23:59:59', '00:00', '12:30:45.123'], ['24:00:00', '12:60', '1:00']],
+	isoDateTime: [string().isoDateTime(), ['2024-01-02T03:04:05Z', '2024-01-02T03:04:05.678+05:30', '2024-01-02T03:04:05-08:00'], ['2024-01-02T03:04:05', '2024-01-02 03:04:05Z', '2024-01-02T03:04:05+25:00']],
+	isoDateTimeLocal: [string().isoDateTime({ local: true }), ['2024-01-02T03:04:05', '2024-01-02T03:04:05Z'], ['2024-01-02']],
+	isoDateTimeUTC: [string().isoDateTime({ offset: false }), ['2024-01-02T03:04:05Z'], ['2024-01-02T03:04:05+01:00']],
+	hexColor: [string().hexColor(), ['#fff', '#FFFA', '#a1b2c3', '#a1b2c3d4'], ['fff', '#ff', '#ggg', '#a1b2c3d']],
+	base64: [string().base64(), ['', 'YQ==', 'YWI=', 'YWJj'], ['YQ=', 'YW*j', 'YWJjZ', '_-8=']],
+	base64url: [string().base64url(), ['YQ', 'YWJj', '_-8'], ['YQ=', 'a+b/', 'Y']],
+	slug: [string().slug(), ['hello', 'hello-world-2'], ['Hello', 'hello--world', '-hello', 'hello_world']],
+	e164: [string().e164(), ['+14155552671', '+442071838750'], ['14155552671', '+0123', '+1234567890123456', '+1 415 555 2671']],
+	cidr: [string().cidr(), ['10.0.0.0/8', '2001:db8::/32'], ['10.0.0.0/33', '10.0.0.0', '2001:db8::/129']],
+	cidr4: [string().cidr(4), ['192.168.0.0/16'], ['2001:db8::/32']],
+	mac: [string().mac(), ['00:1A:2b:3C:4d:5E', '00-1a-2b-3c-4d-5e'], ['00:1a:2b:3c:4d', '00:1a-2b:3c:4d:5e', '00:1a:2b:3c:4d:5g']]
+};
+
+Object.keys(vectors).forEach((name) => {
+	const [parser, valid, invalid] = vectors[name];
+	test(`${name} accepts valid values`, () => {
+		valid.forEach((v) => assert.equal(parser.safeParse(v).success, true, v));
+	});
+	test(`${name} rejects invalid values`, () => {
+		invalid.forEach((v) => assert.equal(parser.safeParse(v).success, false, v));
+	});
+});
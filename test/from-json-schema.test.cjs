@@ -0,0 +1,80 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { fromJSONSchema } = p;
+
+test('fromJSONSchema validates typed schemas', () => {
+	const parser = fromJSONSchema({
+		type: 'object',
+		properties: { name: { type: 'string', minLength: 2 }, age: { type: 'integer', minimum: 0 }, tags: { type: 'array', items: { type: 'string' } } },
+		required: ['name'],
+		additionalProperties: false
+	});
+	assert.deepEqual(parser.check({ name: 'Ann', age: 3, tags: ['a'] }), { name: 'Ann', age: 3, tags: ['a'] });
+	assert.throws(() => parser.check({ name: 'A' }), PRSEError);
+	assert.throws(() => parser.check({ name: 'Ann', age: 1.5 }), PRSEError);
+	assert.throws(() => parser.check({ age: 3 }), PRSEError);
+	assert.throws(() => parser.check({ name: 'Ann', extra: true }), PRSEError);
+});
+
+test('fromJSONSchema applies untyped keywords only to matching instances', () => {
+	const parser = fromJSONSchema({ minLength: 2 });
+	assert.equal(parser.check('ab'), 'ab');
+	assert.equal(parser.check(5), 5);
+	assert.deepEqual(parser.check({ a: 1 }), { a: 1 });
+	assert.throws(() => parser.check('a'), PRSEError);
+
+	const mixed = fromJSONSchema({ minLength: 2, minimum: 10 });
+	assert.equal(mixed.check('ab'), 'ab');
+	assert.equal(mixed.check(10), 10);
+	assert.equal(mixed.check(true), true);
+	assert.throws(() => mixed.check(5), PRSEError);
+	assert.throws(() => mixed.check('a'), PRSEError);
+
+	assert.equal(fromJSONSchema({ required: ['id'] }).check('text'), 'text');
+	assert.throws(() => fromJSONSchema({ required: ['id'] }).check({}), PRSEError);
+});
+
+test('fromJSONSchema compares object and array enum and const values deeply', () => {
+	const parser = fromJSONSchema({ enum: [{ a: 1, b: [2] }, [1, 2], 'x'] });
+	assert.deepEqual(parser.check({ b: [2], a: 1 }), { b: [2], a: 1 });
+	assert.deepEqual(parser.check([1, 2]), [1, 2]);
+	assert.equal(parser.check('x'), 'x');
+	assert.throws(() => parser.check({ a: 1 }), PRSEError);
+	assert.throws(() => parser.check([2, 1]), PRSEError);
+
+	const constant = fromJSONSchema({ const: { a: 1, b: 2 } });
+	assert.deepEqual(constant.check({ b: 2, a: 1 }), { b: 2, a: 1 });
+	assert.throws(() => constant.check({ a: 1, b: 2, c: 3 }), PRSEError);
+});
+
+test('fromJSONSchema resolves local $ref for recursive schemas', () => {
+	const parser = fromJSONSchema({
+		$defs: { node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } }, required: ['children'] } },
+		$ref: '#/$defs/node'
+	});
+	assert.deepEqual(parser.check({ children: [{ children: [] }] }), { children: [{ children: [] }] });
+	assert.throws(() => parser.check({ children: [{}] }), PRSEError);
+});
+
+test('fromJSONSchema uniqueItems compares items deeply', () => {
+	const parser = fromJSONSchema({ type: 'array', uniqueItems: true });
+	assert.deepEqual(parser.check([{ a: 1 }, { a: 2 }]), [{ a: 1 }, { a: 2 }]);
+	assert.throws(
+		() =>
+			parser.check([
+				{ a: 1, b: 2 },
+				{ b: 2, a: 1 }
+			]),
+		PRSEError
+	);
+});
+
+test('fromJSONSchema keeps a __proto__ key as a plain property', () => {
+	const parser = fromJSONSchema({ type: 'object', properties: { name: { type: 'string' } }, additionalProperties: { type: 'object' } });
+	const result = parser.check(JSON.parse('{"name":"Ann","__proto__":{"isAdmin":true}}'));
+	assert.equal(Object.getPrototypeOf(result), Object.prototype);
+	assert.equal(result.isAdmin, undefined);
+	assert.deepEqual(Object.keys(result), ['name', '__proto__']);
+});
@@ -0,0 +1,48 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { array, bigInt, coerce, date, enums, generate, number, object, record, string, tuple } = p;
+
+const seeds = Array.from({ length: 50 }, (_, i) => i + 1);
+
+const assertGenerates = (parser, test = () => true) =>
+	seeds.forEach((seed) => {
+		const value = generate(parser, { seed });
+		assert.equal(parser.safeParse(value).success, true, `seed ${seed}: ${String(value)}`);
+		assert.ok(test(value), `seed ${seed}: ${String(value)}`);
+	});
+
+test('generate() is deterministic for a seed', () => {
+	const user = object({ id: string().uuid(), email: string().email(), age: number().integer().range(18, 99).optional() });
+	assert.deepEqual(generate(user, { seed: 42 }), generate(user, { seed: 42 }));
+});
+
+test('generate() follows types, formats and limits', () => {
+	assertGenerates(string().minLength(3).maxLength(5), (v) => v.length >= 3 && v.length <= 5);
+	assertGenerates(number().integer().range(10, 12), (v) => Number.isInteger(v) && v >= 10 && v <= 12);
+	assertGenerates(string().oneOf(['a', 'b']));
+	assertGenerates(enums(['x', 'y']));
+	assertGenerates(tuple([string().email(), string().ipv4()]));
+	assertGenerates(record(number().moreThan(0)));
+	assertGenerates(array(number().nullable().optional()).length(4), (v) => v.length === 4);
+	assertGenerates(date().minDate('2024-01-01').maxDate('2024-01-31'));
+	assertGenerates(coerce.number().range(1, 2));
+});
+
+test('generate() follows bigInt limits', () => {
+	assertGenerates(bigInt(), (v) => typeof v === 'bigint');
+	assertGenerates(bigInt().range(5, 7), (v) => v >= 5n && v <= 7n);
+	assertGenerates(bigInt().moreThan(2000).lessThanOrEqualTo(2002), (v) => v > 2000n && v <= 2002n);
+	assertGenerates(bigInt().lessThan(-5000), (v) => v < -5000n);
+	assertGenerates(coerce.bigInt().moreThanOrEqualTo(10), (v) => v >= 10n);
+});
+
+test('generate() follows narrow float ranges', () => {
+	assertGenerates(number().moreThan(0).lessThan(0.005), (v) => v > 0 && v < 0.005);
+	assertGenerates(number().range(1.001, 1.002));
+});
+
+test('generate() explains that pattern() is not followed', () => {
+	assert.throws(() => generate(string().pattern(/^[A-Z]{3}-\d{4}$/), { seed: 1 }), /pattern\(\) is not followed/);
+});
@@ -0,0 +1,51 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { object, array, record, tuple, map, set, string, number, enums } = p;
+
+const issuesOf = (parser, value, options) => {
+	try {
+		parser.check(value, options);
+	} catch (e) {
+		return e.issues.map(({ path, check }) => ({ path, check }));
+	}
+	assert.fail('expected the value to be invalid');
+};
+
+test('the first issue is reported by default', () => {
+	const format = object({ a: number(), b: number() });
+	assert.deepEqual(issuesOf(format, { a: 'x', b: 'y' }), [{ path: ['a'], check: 'number' }]);
+});
+
+test('abortEarly: false collects every issue with its path', () => {
+	const format = object({
+		preferences: object({ theme: enums(['dark', 'light']) }),
+		tags: array(string().minLength(3))
+	});
+	assert.deepEqual(issuesOf(format, { preferences: { theme: 'blue' }, tags: ['abc', 'ab', 'a'] }, { abortEarly: false }), [
+		{ path: ['preferences', 'theme'], check: 'enums' },
+		{ path: ['tags', 1], check: 'minLength' },
+		{ path: ['tags', 2], check: 'minLength' }
+	]);
+});
+
+test('records, tuples, maps and sets report paths', () => {
+	const options = { abortEarly: false };
+	assert.deepEqual(issuesOf(record(number()), { a: 1, b: 'x' }, options), [{ path: ['b'], check: 'number' }]);
+	assert.deepEqual(issuesOf(tuple([string(), number()]), [1, 'x'], options), [
+		{ path: [0], check: 'string' },
+		{ path: [1], check: 'number' }
+	]);
+	assert.deepEqual(issuesOf(map(string(), number()), new Map([['a', 'x']]), options).length, 1);
+	assert.deepEqual(issuesOf(set(number()), new Set([1, 'x', 'y']), options).length, 2);
+});
+
+test('error.path is the path of the first issue', () => {
+	try {
+		object({ user: object({ name: string() }) }).check({ user: { name: 1 } });
+		assert.fail('expected the value to be invalid');
+	} catch (e) {
+		assert.deepEqual(e.path, ['user', 'name']);
+	}
+});
@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { array, boolean, enums, lazy, number, object, record, string, toJSONSchema, tuple } = p;
+
+test('toJSONSchema emits a draft 2020-12 object schema', () => {
+	const parser = object({
+		id: string().uuid(),
+		name: string().minLength(1).maxLength(20),
+		email: string().email().optional(),
+		age: number().integer().range(0, 130).nullable(),
+		role: enums(['admin', 'user']).default('user'),
+		tags: array(string().pattern(/^[a-z]+$/)),
+		point: tuple([number(), number()]),
+		flags: record(boolean())
+	}).strict();
+	assert.deepEqual(toJSONSchema(parser), {
+		$schema: 'https://json-schema.org/draft/2020-12/schema',
+		type: 'object',
+		properties: {
+			id: { type: 'string', format: 'uuid' },
+			name: { type: 'string', minLength: 1, maxLength: 20 },
+			email: { type: ['string', 'null'], format: 'email' },
+			age: { type: ['integer', 'null'], minimum: 0, maximum: 130 },
+			role: { enum: ['admin', 'user'], default: 'user' },
+			tags: { type: 'array', items: { type: 'string', pattern: '^[a-z]+$' } },
+			point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false, minItems: 2 },
+			flags: { type: 'object', additionalProperties: { type: 'boolean' } }
+		},
+		required: ['id', 'name', 'age', 'tags', 'point', 'flags'],
+		additionalProperties: false
+	});
+});
+
+test('toJSONSchema maps exclusive bounds and sizes', () => {
+	assert.deepEqual(toJSONSchema(number().moreThan(0).lessThan(10)), { $schema: 'https://json-schema.org/draft/2020-12/schema', type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 10 });
+	assert.deepEqual(toJSONSchema(array(number()).length(3)), { $schema: 'https://json-schema.org/draft/2020-12/schema', type: 'array', items: { type: 'number' }, minItems: 3, maxItems: 3 });
+});
+
+test('toJSONSchema puts lazy parsers in $defs', () => {
+	const node = lazy(() => object({ children: array(node) }));
+	assert.deepEqual(toJSONSchema(object({ root: node })), {
+		$schema: 'https://json-schema.org/draft/2020-12/schema',
+		type: 'object',
+		properties: { root: { $ref: '#/$defs/lazy1' } },
+		required: ['root'],
+		$defs: { lazy1: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/lazy1' } } }, required: ['children'] } }
+	});
+});
@@ -0,0 +1,59 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { array, lazy, object, string } = p;
+
+const node = lazy(() => object({ name: string(), children: array(node) }));
+
+test('lazy() parses recursive data', () => {
+	const tree = { name: 'a', children: [{ name: 'b', children: [] }] };
+	assert.deepEqual(node.check(tree), tree);
+});
+
+test('lazy() rejects data that contains itself', () => {
+	const tree = { name: 'a', children: [] };
+	tree.children.push(tree);
+	assert.throws(
+		() => node.check(tree),
+		(e) => e instanceof PRSEError && e.message === 'Value contains a reference to itself'
+	);
+});
+
+const nested = (depth) => {
+	let tree = { name: 'leaf', children: [] };
+	for (let i = 1; i < depth; i++) {
+		tree = { name: 'node', children: [tree] };
+	}
+	return tree;
+};
+
+test('lazy() parses deep data that is not cyclic', async () => {
+	const tree = nested(100);
+	assert.deepEqual(node.check(tree), tree);
+	assert.deepEqual(await node.checkAsync(tree), tree);
+});
+
+test('lazy() fails instead of overflowing the stack on data that is too deep', () => {
+	const result = node.safeParse(nested(5000));
+	assert.equal(result.success, false);
+	assert.equal(result.error.message, 'Value is nested more than 100 levels deep');
+	assert.equal(result.error.code, 'too_big');
+	assert.equal(result.error.path.length, 200);
+});
+
+test('lazy() accepts the same object in several places', async () => {
+	const leaf = { name: 'b', children: [] };
+	const tree = { name: 'a', children: [leaf, leaf] };
+	assert.deepEqual(node.check(tree), tree);
+	assert.deepEqual(await node.checkAsync(tree), tree);
+	const pair = object({ left: node, right: node });
+	assert.deepEqual(pair.check({ left: leaf, right: leaf }), { left: leaf, right: leaf });
+});
+
+test('concurrent async parses of the same value do not interfere', async () => {
+	const slow = lazy(() => object({ name: string().refineAsync(() => new Promise((resolve) => setTimeout(() => resolve(true), 5))), children: array(slow) }));
+	const tree = { name: 'a', children: [{ name: 'b', children: [] }] };
+	const results = await Promise.all([slow.checkAsync(tree), slow.checkAsync(tree)]);
+	assert.deepEqual(results, [tree, tree]);
+});
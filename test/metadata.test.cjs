@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, ObjectParser } = require('../prse.cjs');
+
+const { compile, number, object, string } = p;
+
+test('metadata is readable from the format', () => {
+	const id = string().uuid().describe('User id').examples('123e4567-e89b-12d3-a456-426614174000').deprecated('Use key').meta({ owner: 'a' }).meta({ team: 'b' });
+	assert.equal(id.def.description, 'User id');
+	assert.deepEqual(id.def.examples, ['123e4567-e89b-12d3-a456-426614174000']);
+	assert.equal(id.def.deprecated, 'Use key');
+	assert.deepEqual(id.def.meta, { owner: 'a', team: 'b' });
+	assert.equal(id.safeParse('nope').success, false);
+});
+
+test('annotated object formats keep the object methods', () => {
+	const base = object({ id: string() }).describe('A thing');
+	assert.ok(base instanceof ObjectParser);
+	const extended = base.extend({ count: number() }).strict();
+	assert.deepEqual(extended.check({ id: 'a', count: 1 }), { id: 'a', count: 1 });
+	assert.equal(extended.safeParse({ id: 'a', count: 1, more: true }).success, false);
+	assert.deepEqual(Object.keys(base.pick('id').shape), ['id']);
+});
+
+test('object methods keep the metadata of the format', () => {
+	const base = object({ id: string(), name: string().optional() }).describe('A thing').examples({ id: 'a' }).deprecated('Use item').meta({ owner: 'a' });
+	const rebuilt = [base.extend({ count: number() }), base.merge(object({ count: number() })), base.pick('id'), base.omit('name'), base.partial(), base.deepPartial(), base.required(), base.strict(), base.strip(), base.passthrough(), base.catchall(number())];
+	rebuilt.forEach((format) => {
+		assert.equal(format.def.description, 'A thing');
+		assert.deepEqual(format.def.examples, [{ id: 'a' }]);
+		assert.equal(format.def.deprecated, 'Use item');
+		assert.deepEqual(format.def.meta, { owner: 'a' });
+	});
+	assert.equal(p.toJSONSchema(base.strict()).description, 'A thing');
+	assert.equal(p.toOpenAPI({ Thing: base.pick('id') }).components.schemas.Thing.description, 'A thing');
+	assert.match(p.toTypeScript({ Thing: base.extend({ count: number() }) }), /A thing/);
+	assert.equal(object({ id: string() }).strict().def.description, undefined);
+});
+
+test('annotations do not change checking or compiling', () => {
+	const format = object({ id: string().brand() }).describe('x');
+	assert.deepEqual(format.check({ id: 'a', extra: 1 }), { id: 'a' });
+	assert.deepEqual(compile(format).check({ id: 'a' }), { id: 'a' });
+	assert.equal(p.toJSONSchema(format).description, 'x');
+});
@@ -0,0 +1,120 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { coerce, number, object, string, validateRequest } = p;
+
+const createUser = validateRequest({
+	body: object({ email: string().email(), age: coerce.number().integer() }),
+	query: object({ notify: coerce.boolean().default(false) }),
+	headers: object({ 'x-request-id': string() })
+});
+
+const nullPrototype = (values) => Object.assign(Object.create(null), values);
+
+const mockResponse = () => {
+	const res = { statusCode: undefined, body: undefined };
+	res.status = (code) => {
+		res.statusCode = code;
+		return { json: (body) => (res.body = body) };
+	};
+	return res;
+};
+
+const runExpress = (req) =>
+	new Promise((resolve, reject) => {
+		const res = mockResponse();
+		const next = (error) => (error ? reject(error) : resolve({ res, nextCalled: true }));
+		createUser.express(req, res, next).then(() => resolve({ res, nextCalled: false }), reject);
+	});
+
+test('express: calls next() with the parsed request', async () => {
+	const req = {
+		body: { email: 'a@b.co', age: '30' },
+		query: nullPrototype({ page: '2' }),
+		headers: { 'x-request-id': 'abc', 'authorization': 'Bearer token', 'cookie': 'a=1' }
+	};
+	const { res, nextCalled } = await runExpress(req);
+	assert.equal(nextCalled, true);
+	assert.equal(res.statusCode, undefined);
+	assert.deepEqual(req.body, { email: 'a@b.co', age: 30 });
+	assert.deepEqual({ ...req.query }, { page: '2', notify: false });
+	assert.deepEqual(req.headers, { 'x-request-id': 'abc', 'authorization': 'Bearer token', 'cookie': 'a=1' });
+});
+
+test('express: responds 400 with every issue and does not call next()', async () => {
+	const req = { body: { email: 'nope', age: 'x' }, query: nullPrototype({}), headers: {} };
+	const { res, nextCalled } = await runExpress(req);
+	assert.equal(nextCalled, false);
+	assert.equal(res.statusCode, 400);
+	assert.equal(typeof res.body.message, 'string');
+	assert.deepEqual(
+		res.body.issues.map((issue) => issue.path),
+		[
+			['body', 'email'],
+			['body', 'age'],
+			['headers', 'x-request-id']
+		]
+	);
+	assert.deepEqual(req.body, { email: 'nope', age: 'x' });
+});
+
+test('express: passes errors that are not validation errors to next()', async () => {
+	const broken = validateRequest({
+		body: number().custom(() => {
+			throw new TypeError('bug');
+		})
+	});
+	const error = await new Promise((resolve) => broken.express({ body: 1 }, mockResponse(), resolve));
+	assert.ok(error instanceof TypeError);
+});
+
+test('koa: accepts null-prototype query objects and keeps other headers', async () => {
+	const ctx = {
+		request: { body: { email: 'a@b.co', age: '30' }, query: nullPrototype({ notify: 'yes' }), headers: { 'x-request-id': 'abc', 'authorization': 'Bearer token' } },
+		params: {}
+	};
+	let nextCalled = false;
+	await createUser.koa(ctx, async () => {
+		nextCalled = true;
+	});
+	assert.equal(nextCalled, true);
+	assert.equal(ctx.status, undefined);
+	assert.deepEqual(ctx.request.body, { email: 'a@b.co', age: 30 });
+	assert.equal(ctx.request.query.notify, true);
+	assert.deepEqual(ctx.request.headers, { 'x-request-id': 'abc', 'authorization': 'Bearer token' });
+});
+
+test('koa: sets status 400 and the issues as the body', async () => {
+	const ctx = { request: { body: {}, query: nullPrototype({}), headers: { 'x-request-id': 'abc' } }, params: {} };
+	let nextCalled = false;
+	await createUser.koa(ctx, async () => {
+		nextCalled = true;
+	});
+	assert.equal(nextCalled, false);
+	assert.equal(ctx.status, 400);
+	assert.deepEqual(
+		ctx.body.issues.map((issue) => issue.path),
+		[
+			['body', 'email'],
+			['body', 'age']
+		]
+	);
+});
+
+test('fastify: calls done() or replies with the issues', async () => {
+	const reply = () => {
+		const sent = {};
+		return { sent, code: (code) => ({ send: (body) => Object.assign(sent, { code, body }) }) };
+	};
+	const request = { body: { email: 'a@b.co', age: '1' }, query: {}, headers: { 'x-request-id': 'abc', 'cookie': 'a=1' } };
+	await new Promise((resolve, reject) => createUser.fastify(request, reply(), (error) => (error ? reject(error) : resolve())));
+	assert.deepEqual(request.body, { email: 'a@b.co', age: 1 });
+	assert.equal(request.headers.cookie, 'a=1');
+
+	const invalid = reply();
+	createUser.fastify({ body: {}, query: {}, headers: {} }, invalid, () => assert.fail('done() should not be called'));
+	await new Promise((resolve) => setTimeout(resolve, 10));
+	assert.equal(invalid.sent.code, 400);
+	assert.equal(invalid.sent.body.issues.length, 3);
+});
@@ -0,0 +1,30 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { number, object, string } = p;
+
+const user = object({ id: number(), name: string(), email: string().optional(), password: string() });
+
+test('extend, pick and omit build new object formats', () => {
+	assert.deepEqual(user.pick('id', 'name').check({ id: 1, name: 'a', password: 'x' }), { id: 1, name: 'a' });
+	assert.deepEqual(user.omit('password').check({ id: 1, name: 'a', password: 'x' }), { id: 1, name: 'a' });
+	assert.deepEqual(user.extend({ age: number() }).check({ id: 1, name: 'a', password: 'x', age: 3 }), { id: 1, name: 'a', password: 'x', age: 3 });
+});
+
+test('partial() makes every key optional', () => {
+	assert.deepEqual(user.partial().check({}), {});
+	assert.throws(() => user.partial().check({ id: 'x' }), PRSEError);
+});
+
+test('required() on an object makes every key required', () => {
+	assert.throws(() => user.required().check({ id: 1, name: 'a', password: 'x' }), PRSEError);
+	assert.deepEqual(user.partial().required().check({ id: 1, name: 'a', email: 'e', password: 'x' }), { id: 1, name: 'a', email: 'e', password: 'x' });
+});
+
+test('required() on a field rejects undefined and null', () => {
+	const name = string().optional().required();
+	assert.equal(name.check('a'), 'a');
+	assert.throws(() => name.check(undefined), PRSEError);
+	assert.throws(() => name.check(null), PRSEError);
+});
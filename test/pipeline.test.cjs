@@ -0,0 +1,46 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { coerce, number, object, preprocess, string } = p;
+
+test('preprocess() runs before the type check', () => {
+	const parser = preprocess((v) => JSON.parse(v), object({ a: number() }));
+	assert.deepEqual(parser.check('{"a":1}'), { a: 1 });
+	assert.throws(() => parser.check('{"a":"x"}'), PRSEError);
+});
+
+test('transform() can report issues through the context', () => {
+	const parser = string().transform((v, ctx) => {
+		const n = Number(v);
+		if (Number.isNaN(n)) {
+			ctx.addIssue({ message: 'Not a number' });
+		}
+		return n;
+	});
+	assert.equal(parser.check('5'), 5);
+	assert.deepEqual(parser.safeParse('x').error.issues, [{ check: 'transform', code: 'custom', received: 'x', path: [], message: 'Not a number' }]);
+});
+
+test('superRefine() reports several issues with their paths', () => {
+	const range = object({ start: number(), end: number() }).superRefine((v, ctx) => {
+		if (v.end < v.start) {
+			ctx.addIssue({ message: 'End must be after start', path: ['end'] });
+			ctx.addIssue({ message: 'Start must be before end', path: ['start'] });
+		}
+	});
+	assert.deepEqual(range.check({ start: 1, end: 2 }), { start: 1, end: 2 });
+	const { error } = range.safeParse({ start: 2, end: 1 });
+	assert.deepEqual(
+		error.issues.map((issue) => [issue.path, issue.message]),
+		[
+			[['end'], 'End must be after start'],
+			[['start'], 'Start must be before end']
+		]
+	);
+});
+
+test('pipe() feeds the output into the next format', () => {
+	assert.equal(string().trim().pipe(coerce.number()).check(' 5 '), 5);
+	assert.throws(() => string().pipe(coerce.number()).check('x'), PRSEError);
+});
@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { array, date, instance, map, number, object, string, unknown } = p;
+
+test('readonly() deep-freezes the parsed value', () => {
+	const config = object({ tags: array(string()), limits: map(string(), number()) }).readonly();
+	const value = config.check({ tags: ['a'], limits: new Map([['a', 1]]) });
+	assert.ok(Object.isFrozen(value));
+	assert.ok(Object.isFrozen(value.tags));
+	assert.throws(() => value.tags.push('b'), TypeError);
+	assert.throws(() => value.limits.set('b', 2), /Cannot call set\(\): the value is readonly/);
+});
+
+test('readonly({ throwOnMutation: true }) throws on writes', () => {
+	const value = object({ a: number() }).readonly({ throwOnMutation: true }).check({ a: 1 });
+	assert.throws(() => (value.a = 2), /Cannot set a: the value is readonly/);
+	assert.equal(value.a, 1);
+});
+
+test('readonly() copies values kept as they are instead of freezing the input', () => {
+	class Client {
+		constructor() {
+			this.calls = 0;
+		}
+	}
+	const input = { nested: { a: [1] }, client: new Client(), extra: { b: 1 }, when: new Date(0) };
+	const parser = object({ nested: unknown(), client: instance(Client), when: date() })
+		.passthrough()
+		.readonly();
+	const value = parser.check(input);
+	assert.ok(Object.isFrozen(value.nested) && Object.isFrozen(value.nested.a) && Object.isFrozen(value.extra));
+	assert.throws(() => value.when.setTime(1), /Cannot call setTime\(\): the value is readonly/);
+	assert.deepEqual(value.nested, input.nested);
+	assert.equal(value.client, input.client);
+	assert.ok(!Object.isFrozen(input.nested) && !Object.isFrozen(input.nested.a) && !Object.isFrozen(input.extra) && !Object.isFrozen(input.client));
+	input.when.setTime(1);
+	assert.equal(value.when.getTime(), 0);
+});
+
+test('readonly() keeps shared and circular references', () => {
+	const shared = { a: 1 };
+	const input = { x: shared, y: shared };
+	input.self = input;
+	const value = unknown().readonly().check(input);
+	assert.equal(value.x, value.y);
+	assert.equal(value.self, value);
+	assert.ok(!Object.isFrozen(input) && !Object.isFrozen(shared));
+});
@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { object, string, number } = p;
+
+test('safeParse returns the parsed value on success', () => {
+	assert.deepEqual(number().default(0).safeParse('Hi'), { success: true, data: 0 });
+	assert.deepEqual(object({ name: string().trim() }).safeParse({ name: ' a ' }), { success: true, data: { name: 'a' } });
+});
+
+test('safeParse returns the error instead of throwing', () => {
+	const result = string().minLength(3).safeParse('ab');
+	assert.equal(result.success, false);
+	assert.ok(result.error instanceof PRSEError);
+	assert.equal(result.error.message, 'String must be at least 3 characters long');
+});
+
+test('safeParse does not log anything', () => {
+	const original = console.error;
+	const logged = [];
+	console.error = (...args) => logged.push(args);
+	try {
+		string().safeParse(1);
+	} finally {
+		console.error = original;
+	}
+	assert.deepEqual(logged, []);
+});
+
+test('safeParse rethrows errors that are not validation errors', () => {
+	const parser = string().custom(() => {
+		throw new TypeError('bug');
+	});
+	assert.throws(() => parser.safeParse('a'), TypeError);
+});
+
+test('safeParseAsync resolves to the same result shape', async () => {
+	assert.deepEqual(await number().safeParseAsync(1), { success: true, data: 1 });
+	const result = await number().safeParseAsync('1');
+	assert.equal(result.success, false);
+	assert.equal(result.error.issues[0].code, 'invalid_type');
+});
@@ -0,0 +1,24 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p } = require('../prse.cjs');
+
+const { compile, string } = p;
+
+test('string transforms change the parsed value', () => {
+	assert.equal(string().trim().check('  a  '), 'a');
+	assert.equal(string().toLowerCase().check('AbC'), 'abc');
+	assert.equal(string().toUpperCase().check('abc'), 'ABC');
+	assert.equal(string().normalize('NFC').check('é'), 'é');
+	assert.equal(string().collapseWhitespace().check(' a \n\t b '), 'a b');
+	assert.equal(string().truncate(3).check('abcdef'), 'abc');
+});
+
+test('later checks see the transformed value', () => {
+	assert.equal(string().trim().minLength(2).safeParse('  a ').success, false);
+	assert.equal(string().trim().maxLength(1).check('  a '), 'a');
+	assert.equal(string().trim().toLowerCase().email().check(' A@B.CO '), 'a@b.co');
+});
+
+test('compiled parsers apply the same transforms', () => {
+	assert.equal(compile(string().trim().toLowerCase()).check('  AB '), 'ab');
+});
@@ -0,0 +1,42 @@
+import { p, Brand, DeepReadonly, Infer, InferInput, SafeParseResult } from '../prse.esm';
+
+type Equal<A, B> = (<X>() => X extends A ? 1 : 2) extends <X>() => X extends B ? 1 : 2 ? true : false;
+const expectType = <T extends true>() => {};
+
+const { array, enums, number, object, record, string, tuple } = p;
+
+const result = object({ name: string() }).safeParse({});
+expectType<Equal<typeof result, SafeParseResult<{ name: string }>>>();
+if (result.success) {
+	expectType<Equal<typeof result.data, { name: string }>>();
+} else {
+	result.error.issues;
+}
+
+const post = object({ id: string(), tags: array(string()), point: tuple([number(), number()]), votes: record(number()) });
+expectType<Equal<Infer<typeof post>, { id: string; tags: string[]; point: [number, number]; votes: Record<string, number> }>>();
+
+const frozen = post.readonly();
+expectType<Equal<Infer<typeof frozen>, DeepReadonly<Infer<typeof post>>>>();
+expectType<Equal<Infer<typeof frozen>['tags'], readonly string[]>>();
+expectType<Equal<Infer<typeof frozen>['point'], readonly [number, number]>>();
+expectType<Equal<Infer<typeof frozen>['votes'], { readonly [x: string]: number }>>();
+
+const account = object({ name: string(), age: number().optional(), role: enums(['admin', 'user']).default('user') });
+expectType<Equal<Infer<typeof account>, { name: string; age?: number | undefined; role: 'admin' | 'user' }>>();
+expectType<Equal<InferInput<typeof account>, { name: string; age?: number | null | undefined; role?: 'admin' | 'user' | undefined }>>();
+
+const nickname = string().optional().required();
+expectType<Equal<Infer<typeof nickname>, string>>();
+const profile = object({ name: string().optional(), age: number().nullable().optional() }).required();
+expectType<Equal<Infer<typeof profile>, { name: string; age: number | null }>>();
+
+const port = string().pipe(p.coerce.number());
+expectType<Equal<Infer<typeof port>, number>>();
+expectType<Equal<InferInput<typeof port>, string>>();
+
+const described = object({ id: string() }).describe('A thing').meta({ owner: 'team' }).extend({ count: number() }).strict();
+expectType<Equal<Infer<typeof described>, { id: string; count: number }>>();
+expectType<Equal<keyof typeof described.shape, 'id' | 'count'>>();
+const userId = string().uuid().describe('User id').brand<'UserId'>();
+expectType<Equal<Infer<typeof userId>, string & Brand<'UserId'>>>();
@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { p, PRSEError } = require('../prse.cjs');
+
+const { number, object, objectLoose, string, unknown } = p;
+
+const point = object({ x: number() });
+
+const issueOf = (fn) => {
+	try {
+		fn();
+	} catch (e) {
+		assert.ok(e instanceof PRSEError);
+		return e.issues[0];
+	}
+	assert.fail('Expected a PRSEError');
+};
+
+test('object() strips unknown keys by default', () => {
+	assert.deepEqual(point.check({ x: 1, y: 2 }), { x: 1 });
+	assert.deepEqual(point.strict().strip().check({ x: 1, y: 2 }), { x: 1 });
+});
+
+test('object() checks missing keys on an empty object', () => {
+	assert.equal(issueOf(() => point.check({})).message, 'Missing property: x');
+});
+
+test('strict() lists every unknown key', () => {
+	assert.deepEqual(
+		issueOf(() => point.strict().check({ x: 1, y: 2, z: 3 })),
+		{
+			check: 'strict',
+			code: 'unexpected_property',
+			received: ['y', 'z'],
+			path: [],
+			message: 'Unexpected properties: y, z'
+		}
+	);
+});
+
+test('passthrough() keeps unknown keys', () => {
+	assert.deepEqual(point.passthrough().check({ x: 1, y: 2 }), { x: 1, y: 2 });
+});
+
+test('catchall() checks unknown keys with a format', () => {
+	assert.deepEqual(point.catchall(string()).check({ x: 1, label: 'a' }), { x: 1, label: 'a' });
+	assert.deepEqual(issueOf(() => point.catchall(string()).check({ x: 1, label: 2 })).path, ['label']);
+});
+
+test('a __proto__ key never changes the prototype of the result', () => {
+	const input = () => JSON.parse('{"x":1,"__proto__":{"isAdmin":true}}');
+	const kept = [point.passthrough(), point.catchall(unknown()), objectLoose({ x: number() })];
+	kept.forEach((parser) => {
+		const result = parser.check(input());
+		assert.equal(Object.getPrototypeOf(result), Object.prototype);
+		assert.equal(result.isAdmin, undefined);
+		assert.deepEqual(Object.keys(result), ['x', '__proto__']);
+		assert.deepEqual(result.__proto__, { isAdmin: true });
+	});
+	const stripped = point.check(input());
+	assert.equal(Object.getPrototypeOf(stripped), Object.prototype);
+	assert.deepEqual(Object.keys(stripped), ['x']);
+	assert.deepEqual(issueOf(() => point.strict().check(input())).received, ['__proto__']);
+});